@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test'
+import { MemoryStorage } from '../test/MemoryStorage'
+import { AnalyserSettings, DEFAULT_ANALYSER_CONFIG, validateAnalyserConfig } from './AnalyserConfig'
+
+function createSettings(storage = new MemoryStorage()): AnalyserSettings {
+  return new AnalyserSettings(storage as unknown as Storage)
+}
+
+describe('validateAnalyserConfig', () => {
+  it('accepts the defaults', () => {
+    expect(validateAnalyserConfig(DEFAULT_ANALYSER_CONFIG)).toEqual([])
+  })
+
+  it('rejects out of range, non power of two and fractional values', () => {
+    expect(validateAnalyserConfig({ fftSize: 1000 })).toEqual(['FFT size must be a power of two'])
+    expect(validateAnalyserConfig({ fftSize: 16 })).toEqual(['FFT size must be between 32 and 32768'])
+    expect(validateAnalyserConfig({ fluxWindow: 2.5 })).toEqual(['Flux window (frames) must be a whole number'])
+    expect(validateAnalyserConfig({ thresholdFloor: Number.NaN, thresholdDecay: '2' })).toHaveLength(2)
+  })
+})
+
+describe('AnalyserSettings', () => {
+  it('applies and announces valid changes', () => {
+    const settings = createSettings()
+    let announced = 0
+    settings.onChange(() => announced++)
+    expect(settings.update({ fluxWindow: 8 })).toEqual([])
+    expect(settings.config.fluxWindow).toBe(8)
+    expect(announced).toBe(1)
+  })
+
+  it('leaves the config untouched when any field is invalid', () => {
+    const settings = createSettings()
+    expect(settings.update({ fluxWindow: 8, fftSize: 1000 })).toHaveLength(1)
+    expect(settings.config).toEqual(DEFAULT_ANALYSER_CONFIG)
+  })
+
+  it('persists changes and drops saved values that no longer validate', () => {
+    const storage = new MemoryStorage()
+    createSettings(storage).update({ thresholdFloor: 1.1 })
+    expect(createSettings(storage).config.thresholdFloor).toBe(1.1)
+
+    storage.setItem('beat-tube:analyser-config', JSON.stringify({ fftSize: 1000, fluxWindow: 6 }))
+    const settings = createSettings(storage)
+    expect(settings.config.fftSize).toBe(DEFAULT_ANALYSER_CONFIG.fftSize)
+    expect(settings.config.fluxWindow).toBe(6)
+  })
+
+  it('resets to the defaults', () => {
+    const settings = createSettings()
+    settings.update({ thresholdDecay: 3 })
+    settings.reset()
+    expect(settings.config).toEqual(DEFAULT_ANALYSER_CONFIG)
+  })
+})
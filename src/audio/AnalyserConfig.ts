@@ -0,0 +1,98 @@
+import type { ConfigLimit } from '../core/ConfigLimits'
+import { validateLimits, validFields } from '../core/ConfigLimits'
+import { loadStored, saveStored, storedRecord } from '../core/storage'
+
+/**
+ * Tunable onset detection parameters, changeable while audio is playing.
+ */
+export interface AnalyserConfig {
+  /** AnalyserNode FFT size, a power of two */
+  fftSize: number
+  /** Frames averaged into meanFlux */
+  fluxWindow: number
+  /** Lowest ratio of flux to meanFlux that can count as a peak */
+  thresholdFloor: number
+  /** Divisor slowing how fast a raised threshold falls back to the floor */
+  thresholdDecay: number
+}
+
+export const DEFAULT_ANALYSER_CONFIG: Readonly<AnalyserConfig> = {
+  fftSize: 1024,
+  fluxWindow: 4,
+  thresholdFloor: 1.025,
+  thresholdDecay: 1.5,
+}
+
+export const ANALYSER_CONFIG_LIMITS: Readonly<Record<keyof AnalyserConfig, ConfigLimit>> = {
+  fftSize: { label: 'FFT size', min: 32, max: 32768, step: 1 },
+  fluxWindow: { label: 'Flux window (frames)', min: 1, max: 64, step: 1 },
+  thresholdFloor: { label: 'Threshold floor', min: 1, max: 3, step: 0.005 },
+  thresholdDecay: { label: 'Threshold decay', min: 0.1, max: 10, step: 0.1 },
+}
+
+const STORAGE_KEY = 'beat-tube:analyser-config'
+
+/**
+ * Check a partial config against ANALYSER_CONFIG_LIMITS.
+ * Returns one message per invalid field; an empty list means it is valid.
+ */
+export function validateAnalyserConfig(patch: Partial<Record<keyof AnalyserConfig, unknown>>): string[] {
+  return validateLimits(ANALYSER_CONFIG_LIMITS, patch, (key, value) => {
+    const { label } = ANALYSER_CONFIG_LIMITS[key]
+    if (key === 'fftSize' && (value & (value - 1)) !== 0)
+      return `${label} must be a power of two`
+    if (key === 'fluxWindow' && !Number.isInteger(value))
+      return `${label} must be a whole number`
+    return undefined
+  })
+}
+
+/**
+ * Holds the live analyser config, persists it and notifies listeners on change.
+ */
+export class AnalyserSettings {
+  private values: AnalyserConfig
+  private listeners: ((config: Readonly<AnalyserConfig>) => void)[] = []
+  private storage?: Storage
+
+  constructor(storage: Storage | undefined = globalThis.localStorage) {
+    this.storage = storage
+    this.values = { ...DEFAULT_ANALYSER_CONFIG, ...this.load() }
+  }
+
+  get config(): Readonly<AnalyserConfig> {
+    return this.values
+  }
+
+  /**
+   * Apply a partial config. Nothing changes unless every field is valid;
+   * the validation errors are returned instead.
+   */
+  update(patch: Partial<AnalyserConfig>): string[] {
+    const errors = validateAnalyserConfig(patch)
+    if (errors.length)
+      return errors
+    this.values = { ...this.values, ...patch }
+    this.save()
+    for (const listener of this.listeners)
+      listener(this.values)
+    return []
+  }
+
+  reset(): void {
+    this.update({ ...DEFAULT_ANALYSER_CONFIG })
+  }
+
+  onChange(listener: (config: Readonly<AnalyserConfig>) => void): void {
+    this.listeners.push(listener)
+  }
+
+  /** Read the saved config, dropping fields that no longer validate */
+  private load(): Partial<AnalyserConfig> {
+    return validFields(ANALYSER_CONFIG_LIMITS, storedRecord(loadStored(this.storage, STORAGE_KEY)), validateAnalyserConfig)
+  }
+
+  private save(): void {
+    saveStored(this.storage, STORAGE_KEY, this.values)
+  }
+}
@@ -0,0 +1,133 @@
+import type { AudioInput } from './AudioEngine'
+import type { LiveOnsetAnalyser } from './OnsetResult'
+import { describe, expect, it } from 'bun:test'
+import { AudioEngine } from './AudioEngine'
+import { DEFAULT_FILTER_CONFIG } from './FilterConfig'
+
+/** Tracks its outgoing connections like an AudioNode */
+class FakeNode {
+  connections = new Set<unknown>()
+  type = ''
+  frequency = { value: 0 }
+  gain = { value: 0 }
+  Q = { value: 0 }
+  threshold = { value: 0 }
+  ratio = { value: 0 }
+
+  connect(target: unknown): void {
+    this.connections.add(target)
+  }
+
+  disconnect(target?: unknown): void {
+    if (target)
+      this.connections.delete(target)
+    else
+      this.connections.clear()
+  }
+}
+
+function createEngine(): { engine: AudioEngine, contexts: number, destination: FakeNode } {
+  const destination = new FakeNode()
+  const result = { engine: undefined as unknown as AudioEngine, contexts: 0, destination }
+  result.engine = new AudioEngine(() => {
+    result.contexts++
+    const create = () => new FakeNode()
+    return {
+      state: 'running',
+      destination,
+      createGain: create,
+      createBiquadFilter: create,
+      createDynamicsCompressor: create,
+    } as unknown as AudioContext
+  })
+  return result
+}
+
+function createInput(monitor = false): AudioInput & { released: () => number } {
+  let released = 0
+  return { kind: 'file', node: new FakeNode() as unknown as AudioNode, monitor, release: () => released++, released: () => released }
+}
+
+function createAnalyser(): LiveOnsetAnalyser & { disposed: boolean } {
+  const analyser = {
+    analyser: new FakeNode() as unknown as AudioNode,
+    disposed: false,
+    update: () => { throw new Error('not used') },
+    dispose: () => { analyser.disposed = true },
+  }
+  return analyser
+}
+
+describe('AudioEngine', () => {
+  it('creates a single context however many inputs attach', () => {
+    const result = createEngine()
+    for (let i = 0; i < 5; i++)
+      result.engine.attach(createInput())
+    expect(result.contexts).toBe(1)
+  })
+
+  it('releases and disconnects the previous input on switching', () => {
+    const { engine } = createEngine()
+    const first = createInput(true)
+    const second = createInput()
+    engine.attach(first)
+    expect(engine.attach(second)).toBe(false)
+    expect(first.released()).toBe(1)
+    expect((first.node as unknown as FakeNode).connections.size).toBe(0)
+    expect(second.released()).toBe(0)
+  })
+
+  it('keeps an input attached again, e.g. the next playlist track', () => {
+    const { engine, destination } = createEngine()
+    const input = createInput(true)
+    engine.attach(input)
+    expect(engine.attach(input)).toBe(true)
+    expect(input.released()).toBe(0)
+    expect((input.node as unknown as FakeNode).connections.has(destination)).toBe(true)
+  })
+
+  it('feeds the same input into each new analyser and disposes the old one', () => {
+    const { engine } = createEngine()
+    const input = createInput()
+    engine.attach(input)
+    const first = createAnalyser()
+    const second = createAnalyser()
+    engine.setAnalyser(first)
+    engine.setAnalyser(second)
+    expect(first.disposed).toBe(true)
+    expect(second.disposed).toBe(false)
+    expect(engine.analyser).toBe(second)
+    expect(input.released()).toBe(0)
+  })
+
+  it('filters what the analyser hears but not what is monitored', () => {
+    const { engine, destination } = createEngine()
+    const input = createInput(true)
+    engine.attach(input)
+    const analyser = createAnalyser()
+    engine.setAnalyser(analyser)
+    engine.setFilters({ ...DEFAULT_FILTER_CONFIG, highPass: 120 })
+
+    // follow the chain from the input node to whatever reaches the analyser
+    const node = input.node as unknown as FakeNode
+    expect(node.connections.has(destination)).toBe(true)
+    const [graphInput] = Array.from(node.connections).filter(target => target !== destination) as FakeNode[]
+    let stage = graphInput
+    const stages: FakeNode[] = []
+    while (!stage.connections.has(analyser.analyser)) {
+      stage = Array.from(stage.connections)[0] as FakeNode
+      stages.push(stage)
+    }
+    expect(stages.map(filter => filter.type)).toEqual(['highpass', 'peaking', 'peaking', 'peaking', 'lowpass', ''])
+    expect(stages[0].frequency.value).toBe(120)
+  })
+
+  it('releases the input on detach', () => {
+    const { engine } = createEngine()
+    const input = createInput()
+    engine.attach(input)
+    engine.detach()
+    expect(input.released()).toBe(1)
+    expect(engine.input).toBeUndefined()
+  })
+})
@@ -0,0 +1,137 @@
+import type { FilterConfig } from './FilterConfig'
+import type { LiveOnsetAnalyser, PreAnalysed } from './OnsetResult'
+import type { TrackMetadata } from './TrackMetadata'
+import { FilterChain } from './FilterChain'
+import { DEFAULT_FILTER_CONFIG } from './FilterConfig'
+
+/** Where an input comes from; filter settings are kept per kind */
+export type InputKind = 'file' | 'preview' | 'screen' | 'mic' | 'url'
+
+export const INPUT_KINDS: Readonly<Record<InputKind, string>> = {
+  file: 'Audio files',
+  preview: 'Demo track',
+  screen: 'Screen share',
+  mic: 'Microphone / line-in',
+  url: 'Stream URL',
+}
+
+/**
+ * An audio source handed to the engine by one of the input cards.
+ */
+export interface AudioInput {
+  kind: InputKind
+  /** Node the input plays into */
+  node: AudioNode
+  /** Also play the input through the speakers; off for captured audio that is already audible */
+  monitor?: boolean
+  /** A decoded file's beat map, for inputs that have one */
+  preAnalysed?: PreAnalysed
+  /** Tags read from a file, for inputs that have them */
+  metadata?: TrackMetadata
+  /** Video playing alongside the audio, whose frames scenes can show */
+  video?: HTMLVideoElement
+  /** Stop whatever the input holds open: capture tracks, sources, media elements */
+  release?: () => void
+}
+
+export type AudioCallback = (input: AudioInput) => void
+
+/**
+ * Owns the app's single AudioContext and the graph inputs feed into.
+ *
+ * Every input connects to one persistent input node, which feeds the current
+ * analyser through a filter chain; only the analyser hears the filtering, as
+ * monitored inputs play to the speakers directly. Attaching a new input detaches and releases the previous
+ * one, and swapping the analyser never touches the input, so switching
+ * sources or detectors leaks neither contexts nor running captures.
+ */
+export class AudioEngine {
+  private ctx: AudioContext | undefined
+  private inputNode: GainNode | undefined
+  private filterChain: FilterChain | undefined
+  private current: AudioInput | undefined
+  private liveAnalyser: LiveOnsetAnalyser | undefined
+  private createContext: () => AudioContext
+
+  constructor(createContext: () => AudioContext = () => new window.AudioContext()) {
+    this.createContext = createContext
+  }
+
+  /** The shared context, created on first use so it starts inside a user gesture */
+  get context(): AudioContext {
+    this.ctx ??= this.createContext()
+    return this.ctx
+  }
+
+  /** The analyser the input feeds, if a live one is running */
+  get analyser(): LiveOnsetAnalyser | undefined {
+    return this.liveAnalyser
+  }
+
+  /** The attached input, if any */
+  get input(): AudioInput | undefined {
+    return this.current
+  }
+
+  /** Reshape the signal the analyser hears */
+  setFilters(config: Readonly<FilterConfig>): void {
+    this.filters().apply(config)
+  }
+
+  /**
+   * Route an input into the analyser graph, releasing the previous input.
+   * Attaching the node that is already attached keeps it, e.g. for the next
+   * track of a playlist. Returns whether the input was already attached.
+   */
+  attach(input: AudioInput): boolean {
+    const ctx = this.context
+    const same = this.current?.node === input.node
+    if (!same) {
+      this.detach()
+      input.node.connect(this.graphInput())
+    }
+    if (input.monitor)
+      input.node.connect(ctx.destination)
+    this.current = input
+    if (ctx.state === 'suspended')
+      ctx.resume().catch(() => {})
+    return same
+  }
+
+  /** Disconnect and release the attached input */
+  detach(): void {
+    const input = this.current
+    if (!input)
+      return
+    this.current = undefined
+    input.node.disconnect()
+    input.release?.()
+  }
+
+  /** Feed the input into a new live analyser, disposing of the old one */
+  setAnalyser(analyser: LiveOnsetAnalyser | undefined): void {
+    const previous = this.liveAnalyser
+    if (previous === analyser)
+      return
+    if (previous) {
+      this.filters().output.disconnect(previous.analyser)
+      previous.dispose?.()
+    }
+    this.liveAnalyser = analyser
+    if (analyser)
+      this.filters().output.connect(analyser.analyser)
+  }
+
+  private graphInput(): GainNode {
+    if (!this.inputNode) {
+      this.inputNode = this.context.createGain()
+      this.inputNode.connect(this.filters().input)
+    }
+    return this.inputNode
+  }
+
+  private filters(): FilterChain {
+    this.filterChain ??= new FilterChain(this.context, DEFAULT_FILTER_CONFIG)
+    return this.filterChain
+  }
+}
@@ -0,0 +1,216 @@
+import type { BandDefinition } from './FrequencyBands'
+import type { SectionName } from './OnsetResult'
+import { FluxExtractor } from './FluxExtractor'
+import { DEFAULT_BANDS } from './FrequencyBands'
+import { SectionDetector } from './SectionDetector'
+import { TempoTracker } from './TempoTracker'
+
+// =============================================================================
+// Offline Analysis Constants
+// =============================================================================
+
+const OFFLINE = {
+  /** Samples per FFT frame, matching the live analysers' fftSize */
+  FRAME_SIZE: 1024,
+  /** Samples between frame starts */
+  HOP_SIZE: 512,
+  /** Frames either side of a frame that its threshold and mean are taken over */
+  THRESHOLD_RADIUS: 20,
+  /** Multiplier applied to the median flux */
+  THRESHOLD_MULTIPLIER: 1.5,
+  /** Constant added to the threshold so silence never triggers */
+  THRESHOLD_OFFSET: 0.004,
+  /** Frames either side a peak must beat to count as one */
+  PEAK_RADIUS: 3,
+  /** Minimum seconds between two onsets in the same stream */
+  MIN_INTERVAL: 0.1,
+} as const
+
+/**
+ * Per-frame onset data for one flux stream (the full spectrum or one band).
+ */
+export interface BeatMapStream {
+  flux: Float32Array
+  meanFlux: Float32Array
+  /** 1 on frames holding an onset */
+  events: Uint8Array
+}
+
+/**
+ * A section of the song, lasting until the next one starts.
+ */
+export interface BeatMapSection {
+  /** Start time in seconds */
+  time: number
+  name: SectionName
+  confidence: number
+}
+
+/**
+ * The result of analysing a whole decoded file ahead of playback.
+ * Frame i covers the audio starting at i * hopTime seconds.
+ */
+export interface BeatMap {
+  /** Seconds between frames */
+  hopTime: number
+  /** Length of the analysed audio in seconds */
+  duration: number
+  /** Full-spectrum onset data */
+  full: BeatMapStream
+  /** Per-band onset data, in the order of bandNames */
+  bands: BeatMapStream[]
+  bandNames: string[]
+  /** Average spectrum level per frame (0-1) */
+  energy: Float32Array
+  /** Tempo estimate per frame */
+  bpm: Float32Array
+  /** Tempo confidence per frame */
+  confidence: Float32Array
+  /** Onset times in seconds */
+  onsets: number[]
+  /** Predicted beat times in seconds */
+  beats: number[]
+  /** Sections in playback order; the first starts at 0 */
+  sections: BeatMapSection[]
+}
+
+/** Mono samples handed to the beat map worker to analyse */
+export interface BeatMapRequest {
+  samples: Float32Array
+  sampleRate: number
+}
+
+/** The worker's reply: the finished map, or why analysis failed */
+export type BeatMapResponse = { map: BeatMap } | { error: string }
+
+/** Mix every channel of a buffer down to one */
+export function mixDown(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++)
+      mono[i] += data[i] / buffer.numberOfChannels
+  }
+  return mono
+}
+
+/**
+ * Threshold a flux stream against the median of the frames around it and keep
+ * local maxima above it. Looking both ways is only possible offline, and it
+ * places each onset on the frame it happens rather than after it.
+ */
+function pickPeaks(flux: Float32Array, hopTime: number): BeatMapStream {
+  const frames = flux.length
+  const meanFlux = new Float32Array(frames)
+  const events = new Uint8Array(frames)
+  const window: number[] = []
+  let lastOnset = -Infinity
+
+  for (let i = 0; i < frames; i++) {
+    const first = Math.max(i - OFFLINE.THRESHOLD_RADIUS, 0)
+    const last = Math.min(i + OFFLINE.THRESHOLD_RADIUS, frames - 1)
+    window.length = 0
+    let total = 0
+    for (let j = first; j <= last; j++) {
+      window.push(flux[j])
+      total += flux[j]
+    }
+    meanFlux[i] = total / window.length
+    window.sort((a, b) => a - b)
+    const threshold = window[Math.floor(window.length / 2)] * OFFLINE.THRESHOLD_MULTIPLIER
+      + OFFLINE.THRESHOLD_OFFSET
+    if (flux[i] <= threshold || i * hopTime - lastOnset < OFFLINE.MIN_INTERVAL)
+      continue
+
+    let isPeak = true
+    for (let j = Math.max(i - OFFLINE.PEAK_RADIUS, 0); j <= Math.min(i + OFFLINE.PEAK_RADIUS, frames - 1); j++) {
+      if (flux[j] > flux[i] || (j < i && flux[j] === flux[i])) {
+        isPeak = false
+        break
+      }
+    }
+    if (isPeak) {
+      events[i] = 1
+      lastOnset = i * hopTime
+    }
+  }
+  return { flux, meanFlux, events }
+}
+
+/**
+ * Analyse a decoded buffer into a timestamped onset, beat, section and energy map.
+ * Spectra are scaled like AnalyserNode byte data, so flux values land in the
+ * same range as the live OnsetBySpectralFlux detector.
+ */
+export function analyseBuffer(
+  buffer: AudioBuffer,
+  bands: readonly BandDefinition[] = DEFAULT_BANDS,
+): BeatMap {
+  return analyseSamples(mixDown(buffer), buffer.sampleRate, bands)
+}
+
+/** Analyse mono samples into a beat map, as analyseBuffer; also runs in a worker */
+export function analyseSamples(
+  mono: Float32Array,
+  sampleRate: number,
+  bands: readonly BandDefinition[] = DEFAULT_BANDS,
+): BeatMap {
+  const extractor = new FluxExtractor(OFFLINE.FRAME_SIZE, sampleRate, bands)
+  const hopTime = OFFLINE.HOP_SIZE / sampleRate
+  const frames = Math.max(Math.ceil(mono.length / OFFLINE.HOP_SIZE), 1)
+
+  const energy = new Float32Array(frames)
+  const fullFlux = new Float32Array(frames)
+  const bandFlux = bands.map(() => new Float32Array(frames))
+
+  for (let frame = 0; frame < frames; frame++) {
+    extractor.process(mono, frame * OFFLINE.HOP_SIZE)
+    energy[frame] = extractor.energy
+    fullFlux[frame] = extractor.flux
+    for (let i = 0; i < bandFlux.length; i++)
+      bandFlux[i][frame] = extractor.bandFlux[i]
+  }
+
+  const full = pickPeaks(fullFlux, hopTime)
+  const bandStreams = bandFlux.map(flux => pickPeaks(flux, hopTime))
+
+  // walk the tempo tracker and section detector over the frames
+  const tracker = new TempoTracker()
+  const sectionDetector = new SectionDetector()
+  const frameBands = bands.map(band => ({ name: band.name, flux: 0, meanFlux: 0, event: false }))
+  const sections: BeatMapSection[] = [{ time: 0, name: sectionDetector.result.name, confidence: 0 }]
+  const bpm = new Float32Array(frames)
+  const confidence = new Float32Array(frames)
+  const onsets: number[] = []
+  const beats: number[] = []
+  for (let frame = 0; frame < frames; frame++) {
+    const event = full.events[frame] === 1
+    if (event)
+      onsets.push(frame * hopTime)
+    const tempo = tracker.update(frame === 0 ? 0 : hopTime, event)
+    if (tempo.beat)
+      beats.push(frame * hopTime)
+    bpm[frame] = tempo.bpm
+    confidence[frame] = tempo.confidence
+
+    for (let i = 0; i < frameBands.length; i++)
+      frameBands[i].flux = bandStreams[i].flux[frame]
+    const section = sectionDetector.update(frame === 0 ? 0 : hopTime, { flux: full.flux[frame], bands: frameBands })
+    if (section.changed)
+      sections.push({ time: frame * hopTime, name: section.name, confidence: section.confidence })
+  }
+
+  return {
+    hopTime,
+    duration: mono.length / sampleRate,
+    full,
+    bands: bandStreams,
+    bandNames: bands.map(band => band.name),
+    energy,
+    bpm,
+    confidence,
+    onsets,
+    beats,
+    sections,
+  }
+}
@@ -0,0 +1,42 @@
+import type { BeatMap, BeatMapRequest, BeatMapResponse } from './BeatMap'
+import { analyseBuffer, mixDown } from './BeatMap'
+import BeatMapWorker from './BeatMapWorker?worker'
+
+/**
+ * Analyse a decoded buffer into a beat map on a worker thread, falling back
+ * to the main thread where workers are unavailable. Aborting `signal` stops
+ * the worker and rejects.
+ */
+export function analyseInBackground(buffer: AudioBuffer, signal?: AbortSignal): Promise<BeatMap> {
+  if (typeof Worker === 'undefined')
+    return Promise.resolve(analyseBuffer(buffer))
+  return new Promise((resolve, reject) => {
+    const worker = new BeatMapWorker()
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', abort)
+    }
+    function abort() {
+      finish()
+      reject(new Error('Analysis aborted'))
+    }
+    if (signal?.aborted) {
+      abort()
+      return
+    }
+    signal?.addEventListener('abort', abort)
+    worker.addEventListener('message', (event: MessageEvent<BeatMapResponse>) => {
+      finish()
+      if ('map' in event.data)
+        resolve(event.data.map)
+      else
+        reject(new Error(event.data.error))
+    })
+    worker.addEventListener('error', () => {
+      finish()
+      reject(new Error('Analysis worker failed'))
+    })
+    const request: BeatMapRequest = { samples: mixDown(buffer), sampleRate: buffer.sampleRate }
+    worker.postMessage(request, [request.samples.buffer])
+  })
+}
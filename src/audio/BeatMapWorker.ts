@@ -0,0 +1,27 @@
+import type { BeatMap, BeatMapRequest, BeatMapResponse } from './BeatMap'
+import { analyseSamples } from './BeatMap'
+
+// DedicatedWorkerGlobalScope, which the DOM typings do not describe
+declare function postMessage(message: BeatMapResponse, transfer?: Transferable[]): void
+
+/** Every typed array of a map, handed back without copying */
+function mapBuffers(map: BeatMap): ArrayBuffer[] {
+  const streams = [map.full, ...map.bands]
+  const arrays = [map.energy, map.bpm, map.confidence, ...streams.flatMap(stream => [stream.flux, stream.meanFlux, stream.events])]
+  return arrays.map(array => array.buffer as ArrayBuffer)
+}
+
+/**
+ * Runs in a Worker: analyses one file's samples into a beat map, so a long
+ * track never stalls rendering or the UI. Loaded through `?worker`, never
+ * imported by the main thread.
+ */
+addEventListener('message', (event: MessageEvent<BeatMapRequest>) => {
+  try {
+    const map = analyseSamples(event.data.samples, event.data.sampleRate)
+    postMessage({ map }, mapBuffers(map))
+  }
+  catch (error) {
+    postMessage({ error: error instanceof Error ? error.message : String(error) })
+  }
+})
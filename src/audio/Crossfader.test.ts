@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'bun:test'
+import { Crossfader, equalPowerCurve } from './Crossfader'
+
+/** Records the automation scheduled on a gain */
+class FakeParam {
+  value = 1
+  curves: { curve: Float32Array, start: number, duration: number }[] = []
+  cancelled: number[] = []
+
+  setValueCurveAtTime(curve: Float32Array, start: number, duration: number): void {
+    this.curves.push({ curve, start, duration })
+  }
+
+  cancelScheduledValues(time: number): void {
+    this.cancelled.push(time)
+  }
+}
+
+class FakeGain {
+  gain = new FakeParam()
+  connected = true
+
+  connect(): void {}
+
+  disconnect(): void {
+    this.connected = false
+  }
+}
+
+function createCrossfader(): { crossfader: Crossfader, ctx: { currentTime: number }, gains: FakeGain[] } {
+  const gains: FakeGain[] = []
+  const ctx = {
+    currentTime: 0,
+    createGain: () => {
+      const gain = new FakeGain()
+      gains.push(gain)
+      return gain
+    },
+  }
+  const crossfader = new Crossfader(ctx as unknown as BaseAudioContext, {} as AudioNode)
+  return { crossfader, ctx, gains }
+}
+
+describe('equalPowerCurve', () => {
+  it('keeps the summed power of both sides constant', () => {
+    const fadeIn = equalPowerCurve('in', 16)
+    const fadeOut = equalPowerCurve('out', 16)
+    expect(fadeIn[0]).toBe(0)
+    expect(fadeOut[0]).toBe(1)
+    expect(fadeIn[15]).toBeCloseTo(1)
+    expect(fadeOut[15]).toBeCloseTo(0)
+    for (let i = 0; i < 16; i++)
+      expect(fadeIn[i] ** 2 + fadeOut[i] ** 2).toBeCloseTo(1)
+  })
+})
+
+describe('Crossfader', () => {
+  it('plays the first source at full gain', () => {
+    const { crossfader, gains } = createCrossfader()
+    crossfader.next(() => ({ stop: () => {} }), 4)
+    expect(gains[0].gain.curves).toEqual([])
+  })
+
+  it('ramps both channels and stops the outgoing one after the fade', async () => {
+    const { crossfader, ctx, gains } = createCrossfader()
+    let stopped = 0
+    crossfader.next(() => ({ stop: () => stopped++ }), 0.01)
+    ctx.currentTime = 30
+    crossfader.next(() => ({ stop: () => {} }), 0.01)
+
+    const [outgoing, incoming] = gains
+    expect(incoming.gain.curves[0]).toMatchObject({ start: 30, duration: 0.01 })
+    expect(incoming.gain.curves[0].curve[0]).toBe(0)
+    expect(outgoing.gain.cancelled).toEqual([30])
+    expect(outgoing.gain.curves[0].curve[0]).toBe(1)
+    // both are still in the mix while the fade runs
+    expect(stopped).toBe(0)
+    expect(outgoing.connected).toBe(true)
+
+    await new Promise(resolve => setTimeout(resolve, 30))
+    expect(stopped).toBe(1)
+    expect(outgoing.connected).toBe(false)
+    expect(incoming.connected).toBe(true)
+  })
+
+  it('cuts straight over with no duration', () => {
+    const { crossfader, gains } = createCrossfader()
+    let stopped = 0
+    crossfader.next(() => ({ stop: () => stopped++ }), 0)
+    crossfader.next(() => ({ stop: () => {} }), 0)
+    expect(stopped).toBe(1)
+    expect(gains[0].connected).toBe(false)
+    expect(gains[1].gain.curves).toEqual([])
+  })
+
+  it('stops fading and current channels together', () => {
+    const { crossfader } = createCrossfader()
+    let stopped = 0
+    crossfader.next(() => ({ stop: () => stopped++ }), 10)
+    crossfader.next(() => ({ stop: () => stopped++ }), 10)
+    crossfader.stop()
+    expect(stopped).toBe(2)
+  })
+})
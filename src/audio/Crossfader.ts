@@ -0,0 +1,98 @@
+// =============================================================================
+// Crossfade Constants
+// =============================================================================
+
+export const CROSSFADE = {
+  /** Points in each gain curve; the browser interpolates between them */
+  CURVE_STEPS: 64,
+} as const
+
+/**
+ * Gain curve for one side of an equal-power crossfade. The incoming side
+ * follows a quarter sine and the outgoing a quarter cosine, so the summed
+ * power stays constant and the mix does not dip halfway through.
+ */
+export function equalPowerCurve(direction: 'in' | 'out', steps: number = CROSSFADE.CURVE_STEPS): Float32Array<ArrayBuffer> {
+  const curve = new Float32Array(steps)
+  for (let i = 0; i < steps; i++) {
+    const angle = (i / (steps - 1)) * Math.PI / 2
+    curve[i] = direction === 'in' ? Math.sin(angle) : Math.cos(angle)
+  }
+  return curve
+}
+
+/** Anything playing into a channel that can be stopped once faded out */
+export interface Stoppable {
+  stop: () => void
+}
+
+/** A source's own gain into the mix */
+interface Channel {
+  gain: GainNode
+  source: Stoppable
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Mixes successive sources into one output node, fading each new source in
+ * while the previous one fades out. Everything listening to the output (the
+ * analyser) hears the mix throughout, so visuals carry across a track change
+ * instead of dropping to silence.
+ */
+export class Crossfader {
+  private audioCtx: BaseAudioContext
+  private output: AudioNode
+  private current: Channel | undefined
+  private fading = new Set<Channel>()
+
+  constructor(audioCtx: BaseAudioContext, output: AudioNode) {
+    this.audioCtx = audioCtx
+    this.output = output
+  }
+
+  /**
+   * Open a channel, create the new source playing into it and fade it in over
+   * `duration` seconds, fading out the current source and stopping it once
+   * silent. A duration of 0 cuts straight over.
+   */
+  next<T extends Stoppable>(create: (channel: GainNode) => T, duration: number): T {
+    const now = this.audioCtx.currentTime
+    const gain = this.audioCtx.createGain()
+    gain.connect(this.output)
+    const source = create(gain)
+    const previous = this.current
+    this.current = { gain, source }
+    if (!previous)
+      return source
+    if (duration <= 0) {
+      this.release(previous)
+      return source
+    }
+
+    gain.gain.setValueCurveAtTime(equalPowerCurve('in'), now, duration)
+    // start from wherever the previous channel is, in case it was still fading in
+    const level = previous.gain.gain.value
+    previous.gain.gain.cancelScheduledValues(now)
+    previous.gain.gain.setValueCurveAtTime(equalPowerCurve('out').map(value => value * level), now, duration)
+    clearTimeout(previous.timer)
+    previous.timer = setTimeout(() => this.release(previous), duration * 1000)
+    this.fading.add(previous)
+    return source
+  }
+
+  /** Stop every channel at once */
+  stop(): void {
+    for (const channel of this.fading)
+      this.release(channel)
+    if (this.current)
+      this.release(this.current)
+    this.current = undefined
+  }
+
+  private release(channel: Channel): void {
+    clearTimeout(channel.timer)
+    this.fading.delete(channel)
+    channel.source.stop()
+    channel.gain.disconnect()
+  }
+}
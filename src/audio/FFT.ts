@@ -0,0 +1,76 @@
+/**
+ * Radix-2 FFT producing the magnitude spectrum of a real, Hann-windowed frame.
+ * Buffers and twiddle factors are allocated once per size, so a single
+ * instance can be reused for every frame of a long signal.
+ */
+export class FFT {
+  readonly size: number
+  private window: Float32Array
+  private real: Float32Array
+  private imag: Float32Array
+  private cos: Float32Array
+  private sin: Float32Array
+  private reversed: Uint32Array
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0)
+      throw new RangeError(`FFT size must be a power of two, got ${size}`)
+    this.size = size
+    this.window = new Float32Array(size)
+    this.real = new Float32Array(size)
+    this.imag = new Float32Array(size)
+    this.cos = new Float32Array(size / 2)
+    this.sin = new Float32Array(size / 2)
+    this.reversed = new Uint32Array(size)
+
+    for (let i = 0; i < size; i++)
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size)
+    for (let i = 0; i < size / 2; i++) {
+      this.cos[i] = Math.cos((2 * Math.PI * i) / size)
+      this.sin[i] = -Math.sin((2 * Math.PI * i) / size)
+    }
+    const bits = Math.log2(size)
+    for (let i = 0; i < size; i++) {
+      let r = 0
+      for (let b = 0; b < bits; b++)
+        r |= ((i >> b) & 1) << (bits - 1 - b)
+      this.reversed[i] = r
+    }
+  }
+
+  /**
+   * Write the magnitudes of `input` (size samples, starting at `offset`)
+   * into `out` (size / 2 bins). Samples past the end of input count as zero.
+   */
+  magnitudes(input: Float32Array, out: Float32Array, offset = 0): void {
+    const { size, real, imag } = this
+    for (let i = 0; i < size; i++) {
+      const j = this.reversed[i]
+      const sample = offset + i < input.length ? input[offset + i] : 0
+      real[j] = sample * this.window[i]
+      imag[j] = 0
+    }
+
+    for (let len = 2; len <= size; len <<= 1) {
+      const half = len >> 1
+      const step = size / len
+      for (let start = 0; start < size; start += len) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cos[k * step]
+          const wi = this.sin[k * step]
+          const a = start + k
+          const b = a + half
+          const tr = real[b] * wr - imag[b] * wi
+          const ti = real[b] * wi + imag[b] * wr
+          real[b] = real[a] - tr
+          imag[b] = imag[a] - ti
+          real[a] += tr
+          imag[a] += ti
+        }
+      }
+    }
+
+    for (let i = 0; i < size / 2; i++)
+      out[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) / size
+  }
+}
@@ -0,0 +1,54 @@
+import type { FilterConfig } from './FilterConfig'
+
+/**
+ * Biquad filters and a compressor shaping the signal on its way to the
+ * analyser: high-pass, three peaking bands, low-pass, then compression.
+ * Only the analyser listens to it, so the monitored output is unaffected.
+ */
+export class FilterChain {
+  /** Node the input feeds */
+  readonly input: BiquadFilterNode
+  /** Node the analyser listens to */
+  readonly output: DynamicsCompressorNode
+
+  private lowPass: BiquadFilterNode
+  private bass: BiquadFilterNode
+  private mid: BiquadFilterNode
+  private treble: BiquadFilterNode
+
+  constructor(audioCtx: BaseAudioContext, config: Readonly<FilterConfig>) {
+    const filter = (type: BiquadFilterType) => {
+      const node = audioCtx.createBiquadFilter()
+      node.type = type
+      return node
+    }
+    this.input = filter('highpass')
+    this.bass = filter('peaking')
+    this.mid = filter('peaking')
+    this.treble = filter('peaking')
+    this.lowPass = filter('lowpass')
+    this.output = audioCtx.createDynamicsCompressor()
+    this.input.connect(this.bass)
+    this.bass.connect(this.mid)
+    this.mid.connect(this.treble)
+    this.treble.connect(this.lowPass)
+    this.lowPass.connect(this.output)
+    this.apply(config)
+  }
+
+  apply(config: Readonly<FilterConfig>): void {
+    this.input.frequency.value = config.highPass
+    this.lowPass.frequency.value = config.lowPass
+    this.bass.frequency.value = config.bassFrequency
+    this.bass.gain.value = config.bassGain
+    this.bass.Q.value = config.bassQ
+    this.mid.frequency.value = config.midFrequency
+    this.mid.gain.value = config.midGain
+    this.mid.Q.value = config.midQ
+    this.treble.frequency.value = config.trebleFrequency
+    this.treble.gain.value = config.trebleGain
+    this.treble.Q.value = config.trebleQ
+    this.output.threshold.value = config.compressorThreshold
+    this.output.ratio.value = config.compressorRatio
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test'
+import { MemoryStorage } from '../test/MemoryStorage'
+import { DEFAULT_FILTER_CONFIG, FilterSettings, validateFilterConfig } from './FilterConfig'
+
+function createSettings(storage = new MemoryStorage()): FilterSettings {
+  return new FilterSettings(storage as unknown as Storage)
+}
+
+describe('validateFilterConfig', () => {
+  it('accepts the defaults', () => {
+    expect(validateFilterConfig(DEFAULT_FILTER_CONFIG)).toEqual([])
+  })
+
+  it('rejects out of range and non numeric values', () => {
+    expect(validateFilterConfig({ highPass: 5 })).toEqual(['High-pass (Hz) must be between 10 and 1000'])
+    expect(validateFilterConfig({ bassGain: Number.NaN, compressorRatio: '4' })).toHaveLength(2)
+  })
+})
+
+describe('FilterSettings', () => {
+  it('keeps a separate config for each input kind', () => {
+    const settings = createSettings()
+    const changes: string[] = []
+    settings.onChange(kind => changes.push(kind))
+    expect(settings.update('screen', { highPass: 80 })).toEqual([])
+    expect(settings.update('mic', { compressorRatio: 4 })).toEqual([])
+    expect(settings.config('screen')).toMatchObject({ highPass: 80, compressorRatio: 1 })
+    expect(settings.config('mic')).toMatchObject({ highPass: 10, compressorRatio: 4 })
+    expect(settings.config('file')).toEqual(DEFAULT_FILTER_CONFIG)
+    expect(changes).toEqual(['screen', 'mic'])
+  })
+
+  it('leaves the config untouched when any field is invalid', () => {
+    const settings = createSettings()
+    expect(settings.update('mic', { midGain: 6, lowPass: 50 })).toHaveLength(1)
+    expect(settings.config('mic')).toEqual(DEFAULT_FILTER_CONFIG)
+  })
+
+  it('persists per kind and drops saved values that no longer validate', () => {
+    const storage = new MemoryStorage()
+    createSettings(storage).update('url', { trebleGain: -6 })
+    expect(createSettings(storage).config('url').trebleGain).toBe(-6)
+
+    storage.setItem('beat-tube:filter-config', JSON.stringify({ mic: { highPass: 5000, bassQ: 2 }, screen: null }))
+    const reloaded = createSettings(storage)
+    expect(reloaded.config('mic')).toEqual({ ...DEFAULT_FILTER_CONFIG, bassQ: 2 })
+    expect(reloaded.config('screen')).toEqual(DEFAULT_FILTER_CONFIG)
+  })
+
+  it('resets one kind back to the defaults', () => {
+    const settings = createSettings()
+    settings.update('mic', { bassGain: 12 })
+    settings.update('file', { bassGain: 6 })
+    settings.reset('mic')
+    expect(settings.config('mic')).toEqual(DEFAULT_FILTER_CONFIG)
+    expect(settings.config('file').bassGain).toBe(6)
+  })
+})
@@ -0,0 +1,131 @@
+import type { ConfigLimit } from '../core/ConfigLimits'
+import type { InputKind } from './AudioEngine'
+import { validateLimits, validFields } from '../core/ConfigLimits'
+import { loadStored, saveStored, storedRecord } from '../core/storage'
+
+/**
+ * Shaping applied to the signal before onset detection only; what the user
+ * hears is never filtered. The defaults leave the signal untouched.
+ */
+export interface FilterConfig {
+  /** High-pass cutoff in Hz, to drop sub-bass rumble */
+  highPass: number
+  /** Low-pass cutoff in Hz, to drop hiss and cymbal wash */
+  lowPass: number
+  /** Centre frequency, gain in dB and Q of the three parametric bands */
+  bassFrequency: number
+  bassGain: number
+  bassQ: number
+  midFrequency: number
+  midGain: number
+  midQ: number
+  trebleFrequency: number
+  trebleGain: number
+  trebleQ: number
+  /** Level in dB above which the compressor evens out loud passages */
+  compressorThreshold: number
+  /** Compression ratio; 1 leaves the signal uncompressed */
+  compressorRatio: number
+}
+
+export const DEFAULT_FILTER_CONFIG: Readonly<FilterConfig> = {
+  highPass: 10,
+  lowPass: 20000,
+  bassFrequency: 100,
+  bassGain: 0,
+  bassQ: 1,
+  midFrequency: 1000,
+  midGain: 0,
+  midQ: 1,
+  trebleFrequency: 6000,
+  trebleGain: 0,
+  trebleQ: 1,
+  compressorThreshold: 0,
+  compressorRatio: 1,
+}
+
+export const FILTER_CONFIG_LIMITS: Readonly<Record<keyof FilterConfig, ConfigLimit>> = {
+  highPass: { label: 'High-pass (Hz)', min: 10, max: 1000, step: 5 },
+  lowPass: { label: 'Low-pass (Hz)', min: 500, max: 20000, step: 100 },
+  bassFrequency: { label: 'Bass frequency (Hz)', min: 20, max: 500, step: 5 },
+  bassGain: { label: 'Bass gain (dB)', min: -24, max: 24, step: 0.5 },
+  bassQ: { label: 'Bass Q', min: 0.1, max: 10, step: 0.1 },
+  midFrequency: { label: 'Mid frequency (Hz)', min: 200, max: 5000, step: 10 },
+  midGain: { label: 'Mid gain (dB)', min: -24, max: 24, step: 0.5 },
+  midQ: { label: 'Mid Q', min: 0.1, max: 10, step: 0.1 },
+  trebleFrequency: { label: 'Treble frequency (Hz)', min: 2000, max: 16000, step: 100 },
+  trebleGain: { label: 'Treble gain (dB)', min: -24, max: 24, step: 0.5 },
+  trebleQ: { label: 'Treble Q', min: 0.1, max: 10, step: 0.1 },
+  compressorThreshold: { label: 'Compressor threshold (dB)', min: -60, max: 0, step: 1 },
+  compressorRatio: { label: 'Compressor ratio', min: 1, max: 20, step: 0.5 },
+}
+
+const STORAGE_KEY = 'beat-tube:filter-config'
+
+/**
+ * Check a partial filter config against FILTER_CONFIG_LIMITS.
+ * Returns one message per invalid field; an empty list means it is valid.
+ */
+export function validateFilterConfig(patch: Partial<Record<keyof FilterConfig, unknown>>): string[] {
+  return validateLimits(FILTER_CONFIG_LIMITS, patch)
+}
+
+/**
+ * Holds a filter config per input kind, persists them and notifies listeners
+ * on change. Screen-share audio and a mixer line-in need very different
+ * shaping, so each kind keeps its own.
+ */
+export class FilterSettings {
+  private values: Partial<Record<InputKind, FilterConfig>>
+  private listeners: ((kind: InputKind, config: Readonly<FilterConfig>) => void)[] = []
+  private storage?: Storage
+
+  constructor(storage: Storage | undefined = globalThis.localStorage) {
+    this.storage = storage
+    this.values = this.load()
+  }
+
+  config(kind: InputKind): Readonly<FilterConfig> {
+    return this.values[kind] ?? DEFAULT_FILTER_CONFIG
+  }
+
+  /**
+   * Apply a partial config to one input kind. Nothing changes unless every
+   * field is valid; the validation errors are returned instead.
+   */
+  update(kind: InputKind, patch: Partial<FilterConfig>): string[] {
+    const errors = validateFilterConfig(patch)
+    if (errors.length)
+      return errors
+    const config = { ...this.config(kind), ...patch }
+    this.values[kind] = config
+    this.save()
+    for (const listener of this.listeners)
+      listener(kind, config)
+    return []
+  }
+
+  reset(kind: InputKind): void {
+    this.update(kind, { ...DEFAULT_FILTER_CONFIG })
+  }
+
+  onChange(listener: (kind: InputKind, config: Readonly<FilterConfig>) => void): void {
+    this.listeners.push(listener)
+  }
+
+  /** Read the saved configs, dropping fields that no longer validate */
+  private load(): Partial<Record<InputKind, FilterConfig>> {
+    const saved = storedRecord(loadStored(this.storage, STORAGE_KEY))
+    const values: Partial<Record<InputKind, FilterConfig>> = {}
+    for (const kind of Object.keys(saved) as InputKind[]) {
+      const fields = saved[kind]
+      if (typeof fields === 'object' && fields)
+        values[kind] = { ...DEFAULT_FILTER_CONFIG, ...validFields(FILTER_CONFIG_LIMITS, storedRecord(fields), validateFilterConfig) }
+    }
+    return values
+  }
+
+  private save(): void {
+    saveStored(this.storage, STORAGE_KEY, this.values)
+  }
+}
@@ -0,0 +1,81 @@
+import type { BandDefinition, BinRange } from './FrequencyBands'
+import { FFT } from './FFT'
+import { bandBinRanges } from './FrequencyBands'
+
+// =============================================================================
+// Spectrum Scaling Constants
+// =============================================================================
+
+const SPECTRUM = {
+  /** Temporal smoothing between frames, as AnalyserNode.smoothingTimeConstant */
+  SMOOTHING: 0.8,
+  /** Magnitude mapped to 0, as AnalyserNode.minDecibels */
+  MIN_DB: -100,
+  /** Magnitude mapped to 1, as AnalyserNode.maxDecibels */
+  MAX_DB: -30,
+  /** Brings rectified flux into the range scenes expect, as OnsetBySpectralFlux */
+  FLUX_GAIN: 4,
+} as const
+
+/**
+ * Turns frames of samples into float spectra scaled like AnalyserNode byte
+ * data, and the half-wave rectified flux between consecutive frames for the
+ * full spectrum and each band. Used wherever samples are analysed directly
+ * rather than through an AnalyserNode.
+ */
+export class FluxExtractor {
+  readonly frameSize: number
+  /** Average spectrum level of the last frame (0-1) */
+  energy = 0
+  /** Full-spectrum flux of the last frame */
+  flux = 0
+  /** Per-band flux of the last frame, in band order */
+  readonly bandFlux: Float32Array
+
+  private fft: FFT
+  private ranges: BinRange[]
+  private magnitudes: Float32Array
+  private smoothed: Float32Array
+  private level: Float32Array
+  private prevLevel: Float32Array
+
+  constructor(frameSize: number, sampleRate: number, bands: readonly BandDefinition[]) {
+    const binCount = frameSize / 2
+    this.frameSize = frameSize
+    this.fft = new FFT(frameSize)
+    this.ranges = bandBinRanges(bands, sampleRate, binCount)
+    this.bandFlux = new Float32Array(bands.length)
+    this.magnitudes = new Float32Array(binCount)
+    this.smoothed = new Float32Array(binCount)
+    this.level = new Float32Array(binCount)
+    this.prevLevel = new Float32Array(binCount)
+  }
+
+  /** Analyse frameSize samples of `samples` starting at `offset` */
+  process(samples: Float32Array, offset = 0): void {
+    const { level, prevLevel, smoothed } = this
+    const binCount = level.length
+    this.fft.magnitudes(samples, this.magnitudes, offset)
+
+    let levelTotal = 0
+    let fluxTotal = 0
+    for (let bin = 0; bin < binCount; bin++) {
+      smoothed[bin] = SPECTRUM.SMOOTHING * smoothed[bin] + (1 - SPECTRUM.SMOOTHING) * this.magnitudes[bin]
+      const db = 20 * Math.log10(smoothed[bin] + 1e-12)
+      level[bin] = Math.min(Math.max((db - SPECTRUM.MIN_DB) / (SPECTRUM.MAX_DB - SPECTRUM.MIN_DB), 0), 1)
+      levelTotal += level[bin]
+      fluxTotal += Math.max(level[bin] - prevLevel[bin], 0)
+    }
+    this.energy = levelTotal / binCount
+    this.flux = fluxTotal / binCount * SPECTRUM.FLUX_GAIN
+
+    for (let i = 0; i < this.ranges.length; i++) {
+      const { start, end } = this.ranges[i]
+      let total = 0
+      for (let bin = start; bin < end; bin++)
+        total += Math.max(level[bin] - prevLevel[bin], 0)
+      this.bandFlux[i] = total / (end - start) * SPECTRUM.FLUX_GAIN
+    }
+    prevLevel.set(level)
+  }
+}
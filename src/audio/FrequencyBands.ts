@@ -0,0 +1,63 @@
+import type { BandOnset, OnsetResult } from './OnsetResult'
+
+/**
+ * A slice of the spectrum analysed on its own, so a kick and a hi-hat
+ * produce separate events.
+ */
+export interface BandDefinition {
+  /** Name scenes use to look the band up */
+  name: string
+  /** Lower edge in Hz */
+  minHz: number
+  /** Upper edge in Hz */
+  maxHz: number
+}
+
+/** Half-open range of FFT bins [start, end) */
+export interface BinRange {
+  start: number
+  end: number
+}
+
+export const DEFAULT_BANDS: readonly BandDefinition[] = [
+  { name: 'bass', minHz: 20, maxHz: 250 },
+  { name: 'lowMid', minHz: 250, maxHz: 2000 },
+  { name: 'highMid', minHz: 2000, maxHz: 6000 },
+  { name: 'treble', minHz: 6000, maxHz: 20000 },
+]
+
+/**
+ * Convert band edges in Hz to FFT bin ranges.
+ * Every range holds at least one bin, so narrow bands still report a value.
+ */
+export function bandBinRanges(
+  bands: readonly BandDefinition[],
+  sampleRate: number,
+  binCount: number,
+): BinRange[] {
+  const hzPerBin = sampleRate / 2 / binCount
+  return bands.map((band) => {
+    const start = Math.min(Math.max(Math.floor(band.minHz / hzPerBin), 0), binCount - 1)
+    const end = Math.min(Math.max(Math.ceil(band.maxHz / hzPerBin), start + 1), binCount)
+    return { start, end }
+  })
+}
+
+/**
+ * Create zeroed band results for a set of band definitions.
+ */
+export function createBandOnsets(bands: readonly BandDefinition[]): BandOnset[] {
+  return bands.map(band => ({
+    name: band.name,
+    flux: 0,
+    meanFlux: 0,
+    event: false,
+  }))
+}
+
+/**
+ * Look up a band result by name.
+ */
+export function getBand(audio: OnsetResult, name: string): BandOnset | undefined {
+  return audio.bands.find(band => band.name === name)
+}
@@ -0,0 +1,75 @@
+import type { HopFrame } from './HopAnalyser'
+import type { PeakConfig } from './PeakPicker'
+import { describe, expect, it } from 'bun:test'
+import { DEFAULT_ANALYSER_CONFIG } from './AnalyserConfig'
+import { DEFAULT_BANDS } from './FrequencyBands'
+import { HopAnalyser } from './HopAnalyser'
+
+const SAMPLE_RATE = 48000
+const FFT_SIZE = 1024
+const HOP_SIZE = 512
+
+/** A short burst of noise every `interval` samples, silent in between */
+function clickSignal(length: number, interval: number): Float32Array {
+  const signal = new Float32Array(length)
+  let state = 1
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    const noise = state / 4294967296 * 2 - 1
+    signal[i] = i % interval < 256 ? noise * 0.8 : 0
+  }
+  return signal
+}
+
+/** Feed the signal in chunks of `chunk` samples and collect every frame */
+function analyse(signal: Float32Array, chunk: number, peaks: PeakConfig = DEFAULT_ANALYSER_CONFIG): HopFrame[] {
+  const analyser = new HopAnalyser(FFT_SIZE, HOP_SIZE, SAMPLE_RATE, DEFAULT_BANDS, peaks)
+  const frames: HopFrame[] = []
+  for (let start = 0; start < signal.length; start += chunk)
+    analyser.push(signal.subarray(start, start + chunk), frame => frames.push(frame))
+  return frames
+}
+
+function eventFrames(frames: HopFrame[]): number[] {
+  return frames.flatMap((frame, i) => frame.full.event ? [i] : [])
+}
+
+describe('HopAnalyser', () => {
+  it('emits one frame per hop', () => {
+    expect(analyse(new Float32Array(SAMPLE_RATE), 128).length).toBe(Math.floor(SAMPLE_RATE / HOP_SIZE))
+  })
+
+  it('gives the same result however the samples are chunked', () => {
+    const signal = clickSignal(SAMPLE_RATE * 4, SAMPLE_RATE / 2)
+    const quanta = analyse(signal, 128)
+    // e.g. a 90 Hz and a 144 Hz display pulling audio at different rates
+    expect(analyse(signal, 533)).toEqual(quanta)
+    expect(analyse(signal, 333)).toEqual(quanta)
+  })
+
+  it('fires once per click', () => {
+    const interval = SAMPLE_RATE / 2
+    const events = eventFrames(analyse(clickSignal(SAMPLE_RATE * 4, interval), 128))
+    expect(events.length).toBe(8)
+    for (let i = 1; i < events.length; i++)
+      expect((events[i] - events[i - 1]) * HOP_SIZE).toBeCloseTo(interval, -3)
+  })
+
+  it('follows the configured threshold floor', () => {
+    const signal = clickSignal(SAMPLE_RATE * 4, SAMPLE_RATE / 2)
+    expect(eventFrames(analyse(signal, 128)).length).toBe(8)
+    // no hop can be more than fluxWindow times the mean it is part of
+    const peaks = { ...DEFAULT_ANALYSER_CONFIG, thresholdFloor: DEFAULT_ANALYSER_CONFIG.fluxWindow }
+    expect(eventFrames(analyse(signal, 128, peaks))).toEqual([])
+  })
+
+  it('averages meanFlux over the configured window', () => {
+    const signal = clickSignal(SAMPLE_RATE, SAMPLE_RATE / 2)
+    const short = analyse(signal, 128, { ...DEFAULT_ANALYSER_CONFIG, fluxWindow: 1 })
+    expect(short.every(frame => frame.full.meanFlux === frame.full.flux)).toBe(true)
+  })
+
+  it('never fires on silence', () => {
+    expect(eventFrames(analyse(new Float32Array(SAMPLE_RATE * 2), 128))).toEqual([])
+  })
+})
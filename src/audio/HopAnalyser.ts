@@ -0,0 +1,87 @@
+import type { BandDefinition } from './FrequencyBands'
+import type { FluxStream, PeakConfig } from './PeakPicker'
+import { FluxExtractor } from './FluxExtractor'
+import { PeakPicker } from './PeakPicker'
+
+/** Name the onset AudioWorkletProcessor is registered under */
+export const ONSET_PROCESSOR = 'onset-processor'
+
+/** processorOptions the onset AudioWorkletNode is created with */
+export interface OnsetProcessorOptions {
+  fftSize: number
+  hopSize: number
+  bands: BandDefinition[]
+  peaks: PeakConfig
+}
+
+/** Messages the main thread posts to the onset processor */
+export type OnsetProcessorMessage = { type: 'configure', fftSize: number, hopSize: number, peaks: PeakConfig } | { type: 'dispose' }
+
+/** Onset data for one hop, posted from the processor to the main thread */
+export interface HopFrame {
+  full: FluxStream
+  bands: FluxStream[]
+}
+
+/**
+ * Cuts a stream of samples into overlapping frames at a fixed hop size and
+ * detects onsets on each, so results depend only on the audio and never on
+ * how it was chunked or how often the screen refreshes.
+ */
+export class HopAnalyser {
+  readonly hopSize: number
+  /** Seconds between frames */
+  readonly hopTime: number
+
+  private extractor: FluxExtractor
+  private buffer: Float32Array
+  private pending = 0
+  private picker: PeakPicker
+  private bandPickers: PeakPicker[]
+
+  constructor(fftSize: number, hopSize: number, sampleRate: number, bands: readonly BandDefinition[], peaks: Readonly<PeakConfig>) {
+    this.hopSize = Math.min(hopSize, fftSize)
+    this.hopTime = this.hopSize / sampleRate
+    this.extractor = new FluxExtractor(fftSize, sampleRate, bands)
+    this.buffer = new Float32Array(fftSize)
+    this.picker = new PeakPicker(peaks)
+    this.bandPickers = bands.map(() => new PeakPicker(peaks))
+  }
+
+  /** Apply new thresholds without losing the detection state built up so far */
+  configure(peaks: Readonly<PeakConfig>): void {
+    for (const picker of [this.picker, ...this.bandPickers])
+      picker.configure(peaks)
+  }
+
+  /** Append samples, calling onFrame for every hop they complete */
+  push(samples: Float32Array, onFrame: (frame: HopFrame) => void): void {
+    const { buffer, hopSize } = this
+    let read = 0
+    while (read < samples.length) {
+      const count = Math.min(hopSize - this.pending, samples.length - read)
+      // slide the window along and append the new samples at the end
+      buffer.copyWithin(0, count)
+      buffer.set(samples.subarray(read, read + count), buffer.length - count)
+      read += count
+      this.pending += count
+      if (this.pending === hopSize) {
+        this.pending = 0
+        onFrame(this.analyse())
+      }
+    }
+  }
+
+  private analyse(): HopFrame {
+    const { extractor } = this
+    extractor.process(this.buffer)
+    const full = { flux: extractor.flux, meanFlux: 0, event: false }
+    this.picker.detect(full, this.hopTime)
+    const bands = this.bandPickers.map((picker, i) => {
+      const band = { flux: extractor.bandFlux[i], meanFlux: 0, event: false }
+      picker.detect(band, this.hopTime)
+      return band
+    })
+    return { full, bands }
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test'
+import { MediaElementController } from './MediaElementController'
+
+/** Just enough of a media element: a clock, play state and events */
+class FakeElement extends EventTarget {
+  currentTime = 0
+  duration = 60
+  playbackRate = 1
+  paused = true
+
+  async play(): Promise<void> {
+    this.paused = false
+  }
+
+  pause(): void {
+    this.paused = true
+  }
+
+  removeAttribute(): void {}
+  load(): void {}
+}
+
+function createController(release?: () => void): { controller: MediaElementController, element: FakeElement } {
+  const element = new FakeElement()
+  const controller = new MediaElementController(element as unknown as HTMLMediaElement, release)
+  return { controller, element }
+}
+
+describe('MediaElementController', () => {
+  it('reads position and remaining time from the element', () => {
+    const { controller, element } = createController()
+    controller.play()
+    expect(controller.playing).toBe(true)
+    element.currentTime = 20
+    controller.setRate(2)
+    expect(controller.position).toBe(20)
+    expect(controller.remaining).toBe(20)
+  })
+
+  it('jumps back to the loop start once past its end', () => {
+    const { controller, element } = createController()
+    element.currentTime = 5
+    controller.setLoop(10, 20)
+    expect(element.currentTime).toBe(10)
+    expect(controller.remaining).toBe(Infinity)
+    element.currentTime = 20.1
+    element.dispatchEvent(new Event('timeupdate'))
+    expect(element.currentTime).toBe(10)
+    controller.seek(30)
+    expect(controller.loop).toBeUndefined()
+  })
+
+  it('reports the end and releases the source once stopped', () => {
+    let released = 0
+    let ended = 0
+    const { controller, element } = createController(() => released++)
+    controller.onEnded = () => ended++
+    element.dispatchEvent(new Event('ended'))
+    expect(ended).toBe(1)
+    controller.stop()
+    controller.stop()
+    element.dispatchEvent(new Event('ended'))
+    expect(ended).toBe(1)
+    expect(released).toBe(1)
+  })
+})
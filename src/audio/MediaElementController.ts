@@ -0,0 +1,105 @@
+import type { Playback } from './PlaybackController'
+
+/**
+ * Transport controls over a media element, for files played through an
+ * element rather than a decoded buffer, such as videos whose frames are shown.
+ *
+ * The element keeps its own clock, so position is read from it directly.
+ * An A-B loop is kept by jumping back whenever the element passes its end.
+ */
+export class MediaElementController<T extends HTMLMediaElement = HTMLMediaElement> implements Playback {
+  readonly element: T
+  loop: { start: number, end: number } | undefined
+  onEnded: (() => void) | undefined
+
+  private release: (() => void) | undefined
+
+  /** `release` frees whatever the element was playing from, once stopped */
+  constructor(element: T, release?: () => void) {
+    this.element = element
+    this.release = release
+    element.addEventListener('timeupdate', () => {
+      const { loop } = this
+      if (loop && element.currentTime >= loop.end)
+        element.currentTime = loop.start
+    })
+    element.addEventListener('ended', () => this.onEnded?.())
+  }
+
+  get playing(): boolean {
+    return !this.element.paused
+  }
+
+  get rate(): number {
+    return this.element.playbackRate
+  }
+
+  get duration(): number {
+    // NaN until metadata has loaded, infinite for live streams
+    const { duration } = this.element
+    return Number.isFinite(duration) ? duration : 0
+  }
+
+  get position(): number {
+    return this.element.currentTime
+  }
+
+  get remaining(): number {
+    if (this.loop || !this.duration)
+      return Infinity
+    return (this.duration - this.position) / this.rate
+  }
+
+  play(): void {
+    this.element.play().catch(() => {})
+  }
+
+  pause(): void {
+    this.element.pause()
+  }
+
+  toggle(): void {
+    if (this.playing)
+      this.pause()
+    else
+      this.play()
+  }
+
+  /** Jump to `seconds`; seeking outside an A-B loop clears it */
+  seek(seconds: number): void {
+    const position = Math.min(Math.max(seconds, 0), this.duration)
+    if (this.loop && (position < this.loop.start || position > this.loop.end))
+      this.loop = undefined
+    this.element.currentTime = position
+  }
+
+  setRate(rate: number): void {
+    this.element.playbackRate = rate
+  }
+
+  /** Loop between two positions, jumping to the start if outside them */
+  setLoop(start: number, end: number): void {
+    const from = Math.min(Math.max(Math.min(start, end), 0), this.duration)
+    const to = Math.min(Math.max(start, end), this.duration)
+    if (to <= from)
+      return
+    this.loop = { start: from, end: to }
+    if (this.position < from || this.position > to)
+      this.element.currentTime = from
+  }
+
+  clearLoop(): void {
+    this.loop = undefined
+  }
+
+  /** Stop playback for good and unload the element */
+  stop(): void {
+    this.onEnded = undefined
+    this.loop = undefined
+    this.element.pause()
+    this.element.removeAttribute('src')
+    this.element.load()
+    this.release?.()
+    this.release = undefined
+  }
+}
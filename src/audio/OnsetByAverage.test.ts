@@ -0,0 +1,192 @@
+import type { AnalyserConfig } from './AnalyserConfig'
+import { describe, expect, it } from 'bun:test'
+import { DEFAULT_ANALYSER_CONFIG } from './AnalyserConfig'
+import { OnsetByAverage } from './OnsetByAverage'
+
+// =============================================================================
+// Fake Audio Graph
+// =============================================================================
+
+const SAMPLE_RATE = 48000
+const FRAME_TIME = 1 / 60
+
+/** Stands in for an AnalyserNode, returning whatever spectrum it was given */
+class FakeAnalyserNode {
+  fftSize = 2048
+  spectrum: Uint8Array = new Uint8Array(0)
+
+  get frequencyBinCount(): number {
+    return this.fftSize / 2
+  }
+
+  getByteFrequencyData(array: Uint8Array): void {
+    array.set(this.spectrum.subarray(0, array.length))
+  }
+}
+
+function createAnalyser(config: Partial<AnalyserConfig> = {}): { onset: OnsetByAverage, node: FakeAnalyserNode } {
+  const node = new FakeAnalyserNode()
+  const audioCtx = {
+    sampleRate: SAMPLE_RATE,
+    createAnalyser: () => node,
+  } as unknown as AudioContext
+  const onset = new OnsetByAverage(audioCtx, undefined, { ...DEFAULT_ANALYSER_CONFIG, ...config })
+  return { onset, node }
+}
+
+/** Deterministic PRNG so noise tests never flake */
+function random(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+// =============================================================================
+// Synthetic Spectra
+// =============================================================================
+
+type Spectrum = (frame: number, binCount: number) => Uint8Array
+
+const silence: Spectrum = (_frame, binCount) => new Uint8Array(binCount)
+
+/** Broadband click every `interval` frames over a quiet floor */
+function clickTrack(interval: number, floor = 20, click = 220): Spectrum {
+  return (frame, binCount) => new Uint8Array(binCount).fill(frame % interval === 0 ? click : floor)
+}
+
+/** A steady tone: a few loud bins around `bin` from `start` on */
+function sustainedTone(bin: number, start: number): Spectrum {
+  return (frame, binCount) => {
+    const spectrum = new Uint8Array(binCount)
+    if (frame >= start) {
+      for (let i = bin - 3; i <= bin + 3; i++)
+        spectrum[i] = 255
+    }
+    return spectrum
+  }
+}
+
+/** Low random noise with loud bursts of `length` frames at the given frames */
+function noiseBursts(bursts: number[], length: number, seed = 1): Spectrum {
+  const next = random(seed)
+  return (frame, binCount) => {
+    const loud = bursts.some(start => frame >= start && frame < start + length)
+    const spectrum = new Uint8Array(binCount)
+    for (let i = 0; i < binCount; i++)
+      spectrum[i] = loud ? 180 + next() * 75 : 20 + next() * 10
+    return spectrum
+  }
+}
+
+/** Clicks in the lowest bins only, as a kick drum */
+function kickTrack(interval: number): Spectrum {
+  return (frame, binCount) => {
+    const spectrum = new Uint8Array(binCount).fill(20)
+    if (frame % interval === 0)
+      spectrum.fill(240, 0, 4)
+    return spectrum
+  }
+}
+
+/** Run the analyser over `frames` frames and return the frames that fired an event */
+function run(onset: OnsetByAverage, node: FakeAnalyserNode, spectrum: Spectrum, frames: number, band?: string): number[] {
+  const events: number[] = []
+  for (let frame = 0; frame < frames; frame++) {
+    node.spectrum = spectrum(frame, node.frequencyBinCount)
+    const result = onset.update(FRAME_TIME)
+    const fired = band ? result.bands.find(b => b.name === band)?.event : result.event
+    if (fired)
+      events.push(frame)
+  }
+  return events
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('OnsetByAverage', () => {
+  it('never fires on silence', () => {
+    const { onset, node } = createAnalyser()
+    expect(run(onset, node, silence, 600)).toEqual([])
+    expect(onset.onset.flux).toBe(0)
+    expect(onset.threshold).toBe(1.025)
+  })
+
+  it('fires once per click, the frame after each click', () => {
+    const { onset, node } = createAnalyser()
+    const events = run(onset, node, clickTrack(30), 300)
+    expect(events).toEqual([1, 31, 61, 91, 121, 151, 181, 211, 241, 271])
+  })
+
+  it('fires once when a sustained tone starts and then stays quiet', () => {
+    const { onset, node } = createAnalyser()
+    const events = run(onset, node, sustainedTone(100, 10), 600)
+    expect(events).toEqual([11])
+  })
+
+  it('fires once per noise burst', () => {
+    const { onset, node } = createAnalyser()
+    const bursts = [40, 160, 280, 400]
+    const events = run(onset, node, noiseBursts(bursts, 3), 520)
+    // the moving mean starts at zero, so the noise floor itself opens with an onset
+    expect(events).toEqual([1, ...bursts.map(start => start + 1)])
+  })
+
+  it('raises the threshold to the peak ratio and decays it back to the floor', () => {
+    const { onset, node } = createAnalyser()
+    const floor = clickTrack(1000)
+    const quiet: Spectrum = (frame, binCount) => floor(frame + 1, binCount)
+
+    // settle on the quiet floor, then hit a single click
+    run(onset, node, quiet, 30)
+    node.spectrum = floor(0, node.frequencyBinCount)
+    onset.update(FRAME_TIME)
+    const peakThreshold = onset.threshold
+    expect(peakThreshold).toBeGreaterThan(2)
+
+    // the threshold shrinks every frame once the click has passed
+    run(onset, node, quiet, 1)
+    expect(onset.threshold).toBeLessThan(peakThreshold)
+
+    run(onset, node, quiet, 600)
+    expect(onset.threshold).toBe(1.025)
+  })
+
+  it('ignores peaks that stay under the threshold floor', () => {
+    const { onset, node } = createAnalyser()
+    // a 2% swing never clears the 1.025 floor
+    const wobble: Spectrum = (frame, binCount) => new Uint8Array(binCount).fill(frame % 2 ? 100 : 102)
+    const events = run(onset, node, wobble, 300)
+    expect(events.filter(frame => frame > 4)).toEqual([])
+  })
+
+  it('reports kicks on the bass band only', () => {
+    const { onset, node } = createAnalyser()
+    expect(run(onset, node, kickTrack(30), 300, 'bass').length).toBe(10)
+    expect(run(onset, node, kickTrack(30), 300, 'treble')).toEqual([])
+  })
+
+  it('ignores smaller peaks with a raised threshold floor', () => {
+    // a 10% swing clears the default floor but not a 1.2 one
+    const wobble: Spectrum = (frame, binCount) => new Uint8Array(binCount).fill(frame % 8 ? 100 : 110)
+    const loose = createAnalyser()
+    expect(run(loose.onset, loose.node, wobble, 300).filter(frame => frame > 4).length).toBeGreaterThan(0)
+    const strict = createAnalyser({ thresholdFloor: 1.2 })
+    expect(run(strict.onset, strict.node, wobble, 300).filter(frame => frame > 4)).toEqual([])
+    expect(strict.onset.threshold).toBe(1.2)
+  })
+
+  it('applies a new config while running', () => {
+    const { onset, node } = createAnalyser()
+    run(onset, node, clickTrack(30), 60)
+    onset.configure({ ...DEFAULT_ANALYSER_CONFIG, fftSize: 256, fluxWindow: 8, thresholdFloor: 1.5 })
+    expect(node.fftSize).toBe(256)
+    expect(onset.curSpectrum.length).toBe(128)
+    expect(onset.prevFlux.length).toBe(8)
+    expect(onset.threshold).toBeGreaterThanOrEqual(1.5)
+    expect(run(onset, node, clickTrack(30), 300).length).toBe(10)
+  })
+})
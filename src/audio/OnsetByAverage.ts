@@ -1,22 +1,123 @@
-import type { OnsetAnalyser, OnsetResult } from './OnsetResult'
+import type { AnalyserConfig } from './AnalyserConfig'
+import type { BandDefinition, BinRange } from './FrequencyBands'
+import type { BandOnset, LiveOnsetAnalyser, OnsetResult } from './OnsetResult'
+import { DEFAULT_ANALYSER_CONFIG } from './AnalyserConfig'
+import { bandBinRanges, createBandOnsets, DEFAULT_BANDS } from './FrequencyBands'
+import { SectionDetector } from './SectionDetector'
+import { TempoTracker } from './TempoTracker'
 
-export class OnsetByAverage implements OnsetAnalyser {
-  onset: OnsetResult = {
-    flux: 0,
-    meanFlux: 0,
-    event: false,
+/** Adaptive threshold state, kept once for the full spectrum and once per band */
+interface ThresholdState {
+  threshold: number
+  peaking: boolean
+  prevFlux: number[]
+}
+
+function createThresholdState(config: Readonly<AnalyserConfig>): ThresholdState {
+  return {
+    threshold: config.thresholdFloor,
+    peaking: false,
+    prevFlux: Array.from({ length: config.fluxWindow }).fill(0) as number[],
   }
+}
+
+/** Grow or shrink the moving mean window, keeping the most recent values */
+function resizeWindow(state: ThresholdState, length: number): void {
+  while (state.prevFlux.length > length)
+    state.prevFlux.shift()
+  while (state.prevFlux.length < length)
+    state.prevFlux.unshift(state.prevFlux[0] ?? 0)
+}
 
-  threshold = 1.025
+/**
+ * Push the latest flux into the moving mean and flag an event when a peak
+ * above the adaptive threshold has just passed.
+ */
+function detectOnset(state: ThresholdState, onset: BandOnset | OnsetResult, time: number, config: Readonly<AnalyserConfig>): void {
+  // average the last fluxWindow spectrums
+  state.prevFlux.push(onset.flux)
+  state.prevFlux.shift()
+  let totalMag = 0
+  for (const magnitude of state.prevFlux)
+    totalMag += magnitude
+  onset.meanFlux = totalMag / state.prevFlux.length
+
+  // is event
+  if (onset.meanFlux > 0) {
+    if (onset.flux > onset.meanFlux * state.threshold) {
+      state.threshold = onset.flux / onset.meanFlux
+      if (!state.peaking)
+        state.peaking = true
+    }
+    else {
+      if (state.peaking)
+        onset.event = true
+      else
+        onset.event = false
+      state.peaking = false
+    }
+    state.threshold -= (time * state.threshold) / (onset.flux / onset.meanFlux) / config.thresholdDecay
+    if (state.threshold < config.thresholdFloor)
+      state.threshold = config.thresholdFloor
+  }
+}
+
+export class OnsetByAverage implements LiveOnsetAnalyser, ThresholdState {
+  onset: OnsetResult
+
+  threshold: number
   peaking = false
   analyser: AnalyserNode
-  curSpectrum: Uint8Array
-  prevFlux: number[] = Array.from({ length: 4 }).fill(0) as number[]
+  curSpectrum: Uint8Array<ArrayBuffer>
+  prevFlux: number[]
+
+  private config: Readonly<AnalyserConfig>
+  private sampleRate: number
+  private bands: readonly BandDefinition[]
+  private tempoTracker = new TempoTracker()
+  private sectionDetector = new SectionDetector()
+  private bandRanges: BinRange[] = []
+  private bandStates: ThresholdState[]
 
-  constructor(audioCtx: AudioContext) {
+  constructor(
+    audioCtx: AudioContext,
+    bands: readonly BandDefinition[] = DEFAULT_BANDS,
+    config: Readonly<AnalyserConfig> = DEFAULT_ANALYSER_CONFIG,
+  ) {
+    this.config = config
+    this.sampleRate = audioCtx.sampleRate
+    this.bands = bands
+    this.threshold = config.thresholdFloor
+    this.prevFlux = Array.from({ length: config.fluxWindow }).fill(0) as number[]
     this.analyser = audioCtx.createAnalyser()
-    this.analyser.fftSize = 1024
+    this.curSpectrum = new Uint8Array(0)
+    this.setFftSize(config.fftSize)
+    this.bandStates = bands.map(() => createThresholdState(config))
+    this.onset = {
+      flux: 0,
+      meanFlux: 0,
+      event: false,
+      bands: createBandOnsets(bands),
+      tempo: this.tempoTracker.result,
+      section: this.sectionDetector.result,
+    }
+  }
+
+  /** Apply a new config without losing the detection state built up so far */
+  configure(config: Readonly<AnalyserConfig>): void {
+    this.config = config
+    if (config.fftSize !== this.analyser.fftSize)
+      this.setFftSize(config.fftSize)
+    for (const state of [this, ...this.bandStates]) {
+      resizeWindow(state, config.fluxWindow)
+      state.threshold = Math.max(state.threshold, config.thresholdFloor)
+    }
+  }
+
+  private setFftSize(fftSize: number): void {
+    this.analyser.fftSize = fftSize
     this.curSpectrum = new Uint8Array(this.analyser.frequencyBinCount)
+    this.bandRanges = bandBinRanges(this.bands, this.sampleRate, this.analyser.frequencyBinCount)
   }
 
   update(time: number): OnsetResult {
@@ -27,34 +128,21 @@ export class OnsetByAverage implements OnsetAnalyser {
       for (const band of this.curSpectrum)
         this.onset.flux += band / 255
       this.onset.flux /= this.analyser.frequencyBinCount
+      detectOnset(this, this.onset, time, this.config)
 
-      // average last 4 spectrums
-      this.prevFlux.push(this.onset.flux)
-      this.prevFlux.shift()
-      let totalMag = 0
-      for (const magnitude of this.prevFlux)
-        totalMag += magnitude
-      this.onset.meanFlux = totalMag / this.prevFlux.length
-
-      // is event
-      if (this.onset.meanFlux > 0) {
-        if (this.onset.flux > this.onset.meanFlux * this.threshold) {
-          this.threshold = this.onset.flux / this.onset.meanFlux
-          if (!this.peaking)
-            this.peaking = true
-        }
-        else {
-          if (this.peaking)
-            this.onset.event = true
-          else
-            this.onset.event = false
-          this.peaking = false
-        }
-        this.threshold -= (time * this.threshold) / (this.onset.flux / this.onset.meanFlux) / 1.5
-        if (this.threshold < 1.025)
-          this.threshold = 1.025
+      // average each band's slice of the spectrum
+      for (let i = 0; i < this.bandRanges.length; i++) {
+        const { start, end } = this.bandRanges[i]
+        const band = this.onset.bands[i]
+        band.flux = 0
+        for (let bin = start; bin < end; bin++)
+          band.flux += this.curSpectrum[bin] / 255
+        band.flux /= end - start
+        detectOnset(this.bandStates[i], band, time, this.config)
       }
     }
+    this.tempoTracker.update(time, this.onset.event)
+    this.sectionDetector.update(time, this.onset)
     return this.onset
   }
 }
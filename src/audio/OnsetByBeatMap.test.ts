@@ -0,0 +1,41 @@
+import type { BeatMap, BeatMapStream } from './BeatMap'
+import { describe, expect, it } from 'bun:test'
+import { OnsetByBeatMap } from './OnsetByBeatMap'
+
+const FRAMES = 1000
+const HOP_TIME = 0.01
+
+function stream(): BeatMapStream {
+  return { flux: new Float32Array(FRAMES), meanFlux: new Float32Array(FRAMES), events: new Uint8Array(FRAMES) }
+}
+
+/** Ten seconds of silence with a beat every second */
+function createMap(): BeatMap {
+  return {
+    hopTime: HOP_TIME,
+    duration: FRAMES * HOP_TIME,
+    full: stream(),
+    bands: [],
+    bandNames: [],
+    energy: new Float32Array(FRAMES),
+    bpm: new Float32Array(FRAMES).fill(60),
+    confidence: new Float32Array(FRAMES),
+    onsets: [],
+    beats: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+    sections: [{ time: 0, name: 'intro', confidence: 0 }],
+  }
+}
+
+describe('OnsetByBeatMap', () => {
+  it('reports the beats due in the next few seconds', () => {
+    let position = 0.5
+    const analyser = new OnsetByBeatMap(createMap(), () => position)
+    expect(analyser.update(0).tempo.upcomingBeats).toEqual([0.5, 1.5, 2.5, 3.5])
+    position = 0.9
+    analyser.update(0)
+    position = 1.25
+    const { tempo } = analyser.update(0)
+    expect(tempo.beat).toBe(true)
+    expect(tempo.upcomingBeats).toEqual([0.75, 1.75, 2.75, 3.75])
+  })
+})
@@ -0,0 +1,171 @@
+import type { BeatMap, BeatMapStream } from './BeatMap'
+import type { BandOnset, OnsetAnalyser, OnsetResult } from './OnsetResult'
+
+/** A jump in position bigger than this (seconds) is a seek, not playback */
+const MAX_STEP = 0.5
+
+/** Seconds ahead that upcoming beats are reported on the OnsetResult */
+const BEAT_LOOKAHEAD = 4
+
+/**
+ * Plays a pre-analysed BeatMap back in sync with the audio clock.
+ * Nothing is detected live, so events land on the frame the music hits
+ * and the upcoming beats are known in advance.
+ */
+export class OnsetByBeatMap implements OnsetAnalyser {
+  onset: OnsetResult
+  map: BeatMap
+
+  private clock: () => number
+  private prevPosition = 0
+  private prevFrame = -1
+  private beatIndex = 0
+  private sectionIndex = 0
+
+  /** `clock` returns the playback position in the mapped audio, in seconds */
+  constructor(map: BeatMap, clock: () => number) {
+    this.map = map
+    this.clock = clock
+    this.onset = {
+      flux: 0,
+      meanFlux: 0,
+      event: false,
+      bands: map.bandNames.map(name => ({
+        name,
+        flux: 0,
+        meanFlux: 0,
+        event: false,
+      })),
+      tempo: {
+        bpm: 0,
+        confidence: 0,
+        phase: 0,
+        beat: false,
+        nextBeatIn: 0,
+        upcomingBeats: [],
+      },
+      section: {
+        name: map.sections[0].name,
+        previous: map.sections[0].name,
+        confidence: map.sections[0].confidence,
+        changed: false,
+        elapsed: 0,
+      },
+    }
+  }
+
+  /**
+   * Switch to another track's map, e.g. the next one in a playlist, keeping
+   * the same OnsetResult so the render loop carries on uninterrupted.
+   */
+  load(map: BeatMap, clock: () => number): void {
+    this.map = map
+    this.clock = clock
+    this.prevPosition = 0
+    this.prevFrame = -1
+    this.beatIndex = 0
+    this.sectionIndex = 0
+    const section = this.onset.section
+    section.previous = section.name
+    section.name = map.sections[0].name
+    section.confidence = map.sections[0].confidence
+    section.elapsed = 0
+  }
+
+  /** Seconds into the mapped audio */
+  get position(): number {
+    return this.clock()
+  }
+
+  /**
+   * Beat times falling within the next `seconds`, relative to now.
+   */
+  upcomingBeats(seconds: number): number[] {
+    const now = this.position
+    const upcoming: number[] = []
+    for (let i = this.beatIndex; i < this.map.beats.length; i++) {
+      const offset = this.map.beats[i] - now
+      if (offset > seconds)
+        break
+      if (offset > 0)
+        upcoming.push(offset)
+    }
+    return upcoming
+  }
+
+  update(_time: number): OnsetResult {
+    const { map } = this
+    const now = this.position
+    const frames = map.energy.length
+    const frame = Math.min(Math.max(Math.floor(now / map.hopTime), 0), frames - 1)
+
+    // a render frame spans several map frames; report any onset among them,
+    // unless playback jumped there by seeking
+    const seeked = Math.abs(now - this.prevPosition) > MAX_STEP
+    this.prevPosition = now
+    const from = seeked || frame < this.prevFrame ? frame : this.prevFrame + 1
+    this.readStream(map.full, this.onset, from, frame)
+    for (let i = 0; i < map.bands.length; i++)
+      this.readStream(map.bands[i], this.onset.bands[i], from, frame)
+    this.prevFrame = frame
+
+    this.updateTempo(now, frame, seeked)
+    this.updateSection(now)
+    return this.onset
+  }
+
+  private readStream(stream: BeatMapStream, onset: BandOnset | OnsetResult, from: number, to: number): void {
+    onset.flux = stream.flux[to]
+    onset.meanFlux = stream.meanFlux[to]
+    onset.event = false
+    for (let i = from; i <= to; i++) {
+      if (stream.events[i]) {
+        onset.event = true
+        break
+      }
+    }
+  }
+
+  private updateTempo(now: number, frame: number, seeked: boolean): void {
+    const { beats } = this.map
+    const tempo = this.onset.tempo
+    tempo.bpm = this.map.bpm[frame]
+    tempo.confidence = this.map.confidence[frame]
+
+    // seeking backwards restarts the search from the first beat
+    const rewound = this.beatIndex > 0 && beats[this.beatIndex - 1] > now
+    if (rewound)
+      this.beatIndex = 0
+
+    tempo.beat = false
+    while (this.beatIndex < beats.length && beats[this.beatIndex] <= now) {
+      this.beatIndex++
+      tempo.beat = !rewound && !seeked
+    }
+
+    const prevBeat = this.beatIndex > 0 ? beats[this.beatIndex - 1] : 0
+    const nextBeat = this.beatIndex < beats.length ? beats[this.beatIndex] : Infinity
+    tempo.nextBeatIn = nextBeat - now
+    tempo.phase = Number.isFinite(nextBeat) ? (now - prevBeat) / (nextBeat - prevBeat) : 0
+    tempo.upcomingBeats = this.upcomingBeats(BEAT_LOOKAHEAD)
+  }
+
+  private updateSection(now: number): void {
+    const { sections } = this.map
+    const section = this.onset.section
+    let index = this.sectionIndex
+    while (index > 0 && sections[index].time > now)
+      index--
+    while (index + 1 < sections.length && sections[index + 1].time <= now)
+      index++
+
+    section.changed = index !== this.sectionIndex
+    if (section.changed) {
+      section.previous = sections[this.sectionIndex].name
+      this.sectionIndex = index
+    }
+    section.name = sections[index].name
+    section.confidence = sections[index].confidence
+    section.elapsed = Math.max(now - sections[index].time, 0)
+  }
+}
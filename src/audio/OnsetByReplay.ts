@@ -0,0 +1,99 @@
+import type { OnsetRecording, RecordedStream } from './OnsetRecorder'
+import type { BandOnset, OnsetAnalyser, OnsetResult } from './OnsetResult'
+
+/**
+ * Feeds a recorded OnsetResult stream back into the render loop, frame by
+ * frame, with the recorded deltaTime. No audio is involved, so a scene sees
+ * exactly the same input on every run. Loops back to the first frame.
+ */
+export class OnsetByReplay implements OnsetAnalyser {
+  onset: OnsetResult
+  frameTime = 0
+  readonly recording: OnsetRecording
+
+  private frame = -1
+  private eventSets: Set<number>[]
+  private beatSet: Set<number>
+  private sectionIndex = 0
+
+  constructor(recording: OnsetRecording) {
+    this.recording = recording
+    this.eventSets = [recording.full, ...recording.bands].map(stream => new Set(stream.events))
+    this.beatSet = new Set(recording.tempo.beats)
+    const opening = recording.sections[0]
+    this.onset = {
+      flux: 0,
+      meanFlux: 0,
+      event: false,
+      bands: recording.bandNames.map(name => ({
+        name,
+        flux: 0,
+        meanFlux: 0,
+        event: false,
+      })),
+      tempo: {
+        bpm: 0,
+        confidence: 0,
+        phase: 0,
+        beat: false,
+        nextBeatIn: 0,
+        upcomingBeats: [],
+      },
+      section: {
+        name: opening.name,
+        previous: opening.name,
+        confidence: opening.confidence,
+        changed: false,
+        elapsed: 0,
+      },
+    }
+  }
+
+  update(_time: number): OnsetResult {
+    const { recording, onset } = this
+    this.frame = (this.frame + 1) % recording.frames
+    const frame = this.frame
+    this.frameTime = recording.deltaTime[frame]
+
+    this.readStream(recording.full, this.eventSets[0], onset, frame)
+    for (let i = 0; i < recording.bands.length; i++)
+      this.readStream(recording.bands[i], this.eventSets[i + 1], onset.bands[i], frame)
+
+    onset.tempo.bpm = recording.tempo.bpm[frame]
+    onset.tempo.confidence = recording.tempo.confidence[frame]
+    onset.tempo.phase = recording.tempo.phase[frame]
+    onset.tempo.nextBeatIn = recording.tempo.nextBeatIn[frame]
+    onset.tempo.beat = this.beatSet.has(frame)
+
+    this.updateSection(frame)
+    return onset
+  }
+
+  private readStream(stream: RecordedStream, events: Set<number>, onset: BandOnset | OnsetResult, frame: number): void {
+    onset.flux = stream.flux[frame]
+    onset.meanFlux = stream.meanFlux[frame]
+    onset.event = events.has(frame)
+  }
+
+  private updateSection(frame: number): void {
+    const { sections } = this.recording
+    const section = this.onset.section
+    if (frame === 0) {
+      this.sectionIndex = 0
+      section.elapsed = 0
+    }
+
+    const next = sections[this.sectionIndex + 1]
+    section.changed = next !== undefined && next.frame === frame
+    if (section.changed) {
+      section.previous = section.name
+      this.sectionIndex++
+      section.elapsed = 0
+    }
+    else {
+      section.elapsed += this.frameTime
+    }
+    section.name = sections[this.sectionIndex].name
+    section.confidence = sections[this.sectionIndex].confidence
+  }
+}
@@ -0,0 +1,106 @@
+import type { AnalyserConfig } from './AnalyserConfig'
+import type { BandDefinition, BinRange } from './FrequencyBands'
+import type { LiveOnsetAnalyser, OnsetResult } from './OnsetResult'
+import { DEFAULT_ANALYSER_CONFIG } from './AnalyserConfig'
+import { bandBinRanges, createBandOnsets, DEFAULT_BANDS } from './FrequencyBands'
+import { PeakPicker } from './PeakPicker'
+import { SectionDetector } from './SectionDetector'
+import { TempoTracker } from './TempoTracker'
+
+// =============================================================================
+// Spectral Flux Constants
+// =============================================================================
+
+const FLUX = {
+  /** Brings rectified flux into the range scenes expect from OnsetByAverage */
+  GAIN: 4,
+} as const
+
+/**
+ * Onset detection by half-wave rectified spectral flux: only bins that got
+ * louder since the last frame count, so a sustained loud passage settles
+ * back to zero flux instead of holding the detector open.
+ */
+export class OnsetBySpectralFlux implements LiveOnsetAnalyser {
+  onset: OnsetResult
+
+  analyser: AnalyserNode
+  curSpectrum: Uint8Array<ArrayBuffer>
+  prevSpectrum: Uint8Array<ArrayBuffer>
+
+  private sampleRate: number
+  private bands: readonly BandDefinition[]
+  private picker: PeakPicker
+  private tempoTracker = new TempoTracker()
+  private sectionDetector = new SectionDetector()
+  private bandRanges: BinRange[] = []
+  private bandPickers: PeakPicker[]
+
+  constructor(
+    audioCtx: AudioContext,
+    bands: readonly BandDefinition[] = DEFAULT_BANDS,
+    config: Readonly<AnalyserConfig> = DEFAULT_ANALYSER_CONFIG,
+  ) {
+    this.sampleRate = audioCtx.sampleRate
+    this.bands = bands
+    this.analyser = audioCtx.createAnalyser()
+    this.curSpectrum = new Uint8Array(0)
+    this.prevSpectrum = new Uint8Array(0)
+    this.setFftSize(config.fftSize)
+    this.picker = new PeakPicker(config)
+    this.bandPickers = bands.map(() => new PeakPicker(config))
+    this.onset = {
+      flux: 0,
+      meanFlux: 0,
+      event: false,
+      bands: createBandOnsets(bands),
+      tempo: this.tempoTracker.result,
+      section: this.sectionDetector.result,
+    }
+  }
+
+  /** Apply a new config without losing the detection state built up so far */
+  configure(config: Readonly<AnalyserConfig>): void {
+    if (config.fftSize !== this.analyser.fftSize)
+      this.setFftSize(config.fftSize)
+    for (const picker of [this.picker, ...this.bandPickers])
+      picker.configure(config)
+  }
+
+  private setFftSize(fftSize: number): void {
+    this.analyser.fftSize = fftSize
+    this.curSpectrum = new Uint8Array(this.analyser.frequencyBinCount)
+    this.prevSpectrum = new Uint8Array(this.analyser.frequencyBinCount)
+    this.bandRanges = bandBinRanges(this.bands, this.sampleRate, this.analyser.frequencyBinCount)
+  }
+
+  /** Sum of positive bin differences over [start, end), scaled by FLUX.GAIN */
+  private rectifiedFlux(start: number, end: number): number {
+    let flux = 0
+    for (let bin = start; bin < end; bin++) {
+      const diff = this.curSpectrum[bin] - this.prevSpectrum[bin]
+      if (diff > 0)
+        flux += diff / 255
+    }
+    return flux / (end - start) * FLUX.GAIN
+  }
+
+  update(time: number): OnsetResult {
+    this.analyser.getByteFrequencyData(this.curSpectrum)
+
+    this.onset.flux = this.rectifiedFlux(0, this.curSpectrum.length)
+    this.picker.detect(this.onset, time)
+
+    for (let i = 0; i < this.bandRanges.length; i++) {
+      const { start, end } = this.bandRanges[i]
+      const band = this.onset.bands[i]
+      band.flux = this.rectifiedFlux(start, end)
+      this.bandPickers[i].detect(band, time)
+    }
+
+    this.prevSpectrum.set(this.curSpectrum)
+    this.tempoTracker.update(time, this.onset.event)
+    this.sectionDetector.update(time, this.onset)
+    return this.onset
+  }
+}
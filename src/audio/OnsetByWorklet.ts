@@ -0,0 +1,182 @@
+import type { AnalyserConfig } from './AnalyserConfig'
+import type { BandDefinition } from './FrequencyBands'
+import type { HopFrame, OnsetProcessorMessage, OnsetProcessorOptions } from './HopAnalyser'
+import type { LiveOnsetAnalyser, OnsetResult } from './OnsetResult'
+import type { PeakConfig } from './PeakPicker'
+import { DEFAULT_ANALYSER_CONFIG } from './AnalyserConfig'
+import { createBandOnsets, DEFAULT_BANDS } from './FrequencyBands'
+import { ONSET_PROCESSOR } from './HopAnalyser'
+import { OnsetByAverage } from './OnsetByAverage'
+import onsetProcessorUrl from './OnsetProcessor?worker&url'
+import { SectionDetector } from './SectionDetector'
+import { TempoTracker } from './TempoTracker'
+
+// =============================================================================
+// Worklet Constants
+// =============================================================================
+
+const WORKLET = {
+  /** Samples between analysis frames, whatever the FFT size */
+  HOP_SIZE: 512,
+  /** Hops kept waiting for update(), about three seconds at 44.1 kHz */
+  MAX_QUEUED_HOPS: 256,
+} as const
+
+/** The thresholds the processor's peak pickers follow, as plain data it can be sent */
+function peakConfig({ fluxWindow, thresholdFloor, thresholdDecay }: Readonly<AnalyserConfig>): PeakConfig {
+  return { fluxWindow, thresholdFloor, thresholdDecay }
+}
+
+/** addModule only needs to run once per context */
+const loadedModules = new WeakMap<BaseAudioContext, Promise<void>>()
+
+function loadProcessor(audioCtx: AudioContext): Promise<void> {
+  let loading = loadedModules.get(audioCtx)
+  if (!loading) {
+    loading = audioCtx.audioWorklet.addModule(onsetProcessorUrl)
+    loadedModules.set(audioCtx, loading)
+  }
+  return loading
+}
+
+/**
+ * Whether this context can run the worklet analyser. AudioWorklet is only
+ * available in secure contexts.
+ */
+export function supportsWorklet(audioCtx: AudioContext): boolean {
+  return typeof AudioWorkletNode !== 'undefined' && !!audioCtx.audioWorklet
+}
+
+/**
+ * Onset detection on the audio thread. An AudioWorkletProcessor analyses
+ * float FFT frames at a fixed hop size and posts each hop's flux and events;
+ * update() folds every hop that arrived since the last render frame into the
+ * OnsetResult and steps tempo and section tracking once per hop, so detection
+ * behaves the same at any frame rate.
+ *
+ * The worklet module loads asynchronously, so inputs connect to a gain node
+ * that is wired to the processor once it is ready. If it fails to load the
+ * input is handed to an OnsetByAverage instead.
+ */
+export class OnsetByWorklet implements LiveOnsetAnalyser {
+  onset: OnsetResult
+
+  /** Input node; connect sources here */
+  analyser: GainNode
+  /** Resolves once the processor is receiving audio */
+  readonly ready: Promise<void>
+
+  private node?: AudioWorkletNode
+  private fallback?: OnsetByAverage
+  private disposed = false
+  private frames: HopFrame[] = []
+  private hopTime: number
+  private sampleRate: number
+  private tempoTracker = new TempoTracker()
+  private sectionDetector = new SectionDetector()
+
+  constructor(
+    audioCtx: AudioContext,
+    bands: readonly BandDefinition[] = DEFAULT_BANDS,
+    config: Readonly<AnalyserConfig> = DEFAULT_ANALYSER_CONFIG,
+  ) {
+    this.analyser = audioCtx.createGain()
+    this.sampleRate = audioCtx.sampleRate
+    this.hopTime = Math.min(WORKLET.HOP_SIZE, config.fftSize) / this.sampleRate
+    this.onset = {
+      flux: 0,
+      meanFlux: 0,
+      event: false,
+      bands: createBandOnsets(bands),
+      tempo: this.tempoTracker.result,
+      section: this.sectionDetector.result,
+    }
+
+    const processorOptions: OnsetProcessorOptions = {
+      fftSize: config.fftSize,
+      hopSize: WORKLET.HOP_SIZE,
+      bands: bands.map(band => ({ ...band })),
+      peaks: peakConfig(config),
+    }
+    this.ready = loadProcessor(audioCtx).then(() => {
+      if (this.disposed)
+        return
+      // no outputs: the processor only listens, and is kept running by its input
+      const node = new AudioWorkletNode(audioCtx, ONSET_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        processorOptions,
+      })
+      node.port.onmessage = (event: MessageEvent<HopFrame>) => {
+        this.frames.push(event.data)
+        // update() stops being called in a background tab: keep only the latest hops
+        if (this.frames.length > WORKLET.MAX_QUEUED_HOPS)
+          this.frames.shift()
+      }
+      this.analyser.connect(node)
+      this.node = node
+    }).catch(() => {
+      if (this.disposed)
+        return
+      this.fallback = new OnsetByAverage(audioCtx, bands, config)
+      this.analyser.connect(this.fallback.analyser)
+    })
+  }
+
+  configure(config: Readonly<AnalyserConfig>): void {
+    this.fallback?.configure(config)
+    if (!this.node)
+      return
+    const message: OnsetProcessorMessage = {
+      type: 'configure',
+      fftSize: config.fftSize,
+      hopSize: WORKLET.HOP_SIZE,
+      peaks: peakConfig(config),
+    }
+    this.node.port.postMessage(message)
+    this.hopTime = Math.min(WORKLET.HOP_SIZE, config.fftSize) / this.sampleRate
+  }
+
+  dispose(): void {
+    this.disposed = true
+    this.analyser.disconnect()
+    if (this.node) {
+      const message: OnsetProcessorMessage = { type: 'dispose' }
+      this.node.port.postMessage(message)
+      this.node.port.onmessage = null
+    }
+    this.frames = []
+  }
+
+  update(time: number): OnsetResult {
+    if (this.fallback)
+      return this.fallback.update(time)
+
+    const { onset } = this
+    const frames = this.frames
+    this.frames = []
+    onset.event = false
+    for (const band of onset.bands)
+      band.event = false
+
+    // a beat or section change on any hop since the last render frame counts
+    let beat = false
+    let changed = false
+    for (const frame of frames) {
+      onset.flux = frame.full.flux
+      onset.meanFlux = frame.full.meanFlux
+      onset.event ||= frame.full.event
+      for (let i = 0; i < onset.bands.length; i++) {
+        const band = onset.bands[i]
+        band.flux = frame.bands[i].flux
+        band.meanFlux = frame.bands[i].meanFlux
+        band.event ||= frame.bands[i].event
+      }
+      beat ||= this.tempoTracker.update(this.hopTime, frame.full.event).beat
+      changed ||= this.sectionDetector.update(this.hopTime, onset).changed
+    }
+    onset.tempo.beat = beat
+    onset.section.changed = changed
+    return onset
+  }
+}
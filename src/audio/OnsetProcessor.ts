@@ -0,0 +1,72 @@
+import type { OnsetProcessorMessage, OnsetProcessorOptions } from './HopAnalyser'
+import { HopAnalyser, ONSET_PROCESSOR } from './HopAnalyser'
+
+// AudioWorkletGlobalScope, which the DOM typings do not describe
+declare const sampleRate: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: { processorOptions: OnsetProcessorOptions }) => AudioWorkletProcessor,
+): void
+
+/**
+ * Runs on the audio rendering thread: mixes its input down to mono, analyses
+ * it at a fixed hop size and posts a HopFrame to the main thread per hop.
+ * Loaded through audioWorklet.addModule, never imported by the main thread.
+ */
+class OnsetProcessor extends AudioWorkletProcessor {
+  private options: OnsetProcessorOptions
+  private analyser: HopAnalyser
+  private mono = new Float32Array(128)
+  private disposed = false
+
+  constructor({ processorOptions }: { processorOptions: OnsetProcessorOptions }) {
+    super()
+    this.options = processorOptions
+    this.analyser = this.createAnalyser()
+    this.port.onmessage = (event: MessageEvent<OnsetProcessorMessage>) => {
+      const message = event.data
+      if (message.type === 'dispose') {
+        this.disposed = true
+        return
+      }
+      const { fftSize, hopSize, peaks } = message
+      // only a new frame size needs a new analyser
+      const resize = fftSize !== this.options.fftSize || hopSize !== this.options.hopSize
+      this.options = { ...this.options, fftSize, hopSize, peaks }
+      if (resize)
+        this.analyser = this.createAnalyser()
+      else
+        this.analyser.configure(peaks)
+    }
+  }
+
+  private createAnalyser(): HopAnalyser {
+    const { fftSize, hopSize, bands, peaks } = this.options
+    return new HopAnalyser(fftSize, hopSize, sampleRate, bands, peaks)
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // returning false lets the node be collected
+    if (this.disposed)
+      return false
+    const channels = inputs[0]
+    if (!channels?.length)
+      return true
+
+    const length = channels[0].length
+    if (this.mono.length !== length)
+      this.mono = new Float32Array(length)
+    this.mono.fill(0)
+    for (const channel of channels) {
+      for (let i = 0; i < length; i++)
+        this.mono[i] += channel[i] / channels.length
+    }
+    this.analyser.push(this.mono, frame => this.port.postMessage(frame))
+    return true
+  }
+}
+
+registerProcessor(ONSET_PROCESSOR, OnsetProcessor)
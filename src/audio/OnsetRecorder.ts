@@ -0,0 +1,155 @@
+import type { OnsetResult, SectionName } from './OnsetResult'
+
+/** Decimal places kept for recorded values */
+const PRECISION = 1e4
+
+export const RECORDING_VERSION = 1
+
+/** One flux stream, stored column by column */
+export interface RecordedStream {
+  flux: number[]
+  meanFlux: number[]
+  /** Frame indices holding an event */
+  events: number[]
+}
+
+/**
+ * A captured run of the draw loop: every frame's deltaTime and OnsetResult.
+ * Values are stored column by column and events as frame indices, which
+ * keeps the JSON compact enough to attach to a bug report.
+ */
+export interface OnsetRecording {
+  version: typeof RECORDING_VERSION
+  frames: number
+  deltaTime: number[]
+  full: RecordedStream
+  bandNames: string[]
+  bands: RecordedStream[]
+  tempo: {
+    bpm: number[]
+    confidence: number[]
+    phase: number[]
+    nextBeatIn: number[]
+    /** Frame indices a predicted beat fell on */
+    beats: number[]
+  }
+  /** Section changes, with frame 0 holding the opening section */
+  sections: { frame: number, name: SectionName, confidence: number }[]
+}
+
+function round(value: number): number {
+  return Number.isFinite(value) ? Math.round(value * PRECISION) / PRECISION : 0
+}
+
+function createStream(): RecordedStream {
+  return { flux: [], meanFlux: [], events: [] }
+}
+
+function createRecording(bandNames: string[]): OnsetRecording {
+  return {
+    version: RECORDING_VERSION,
+    frames: 0,
+    deltaTime: [],
+    full: createStream(),
+    bandNames,
+    bands: bandNames.map(() => createStream()),
+    tempo: { bpm: [], confidence: [], phase: [], nextBeatIn: [], beats: [] },
+    sections: [],
+  }
+}
+
+/**
+ * Captures OnsetResults from the draw loop for later replay.
+ */
+export class OnsetRecorder {
+  recording = false
+  private data = createRecording([])
+
+  start(): void {
+    this.recording = true
+    this.data = createRecording([])
+  }
+
+  /** Stop recording and return everything captured since start() */
+  stop(): OnsetRecording {
+    this.recording = false
+    return this.data
+  }
+
+  record(deltaTime: number, onset: OnsetResult): void {
+    if (!this.recording)
+      return
+    if (this.data.frames === 0)
+      this.data = createRecording(onset.bands.map(band => band.name))
+    const data = this.data
+    const frame = data.frames
+
+    data.deltaTime.push(round(deltaTime))
+    this.recordStream(data.full, onset, frame)
+    for (let i = 0; i < data.bands.length; i++) {
+      if (onset.bands[i])
+        this.recordStream(data.bands[i], onset.bands[i], frame)
+    }
+
+    data.tempo.bpm.push(round(onset.tempo.bpm))
+    data.tempo.confidence.push(round(onset.tempo.confidence))
+    data.tempo.phase.push(round(onset.tempo.phase))
+    data.tempo.nextBeatIn.push(round(onset.tempo.nextBeatIn))
+    if (onset.tempo.beat)
+      data.tempo.beats.push(frame)
+
+    if (frame === 0 || onset.section.changed) {
+      data.sections.push({
+        frame,
+        name: onset.section.name,
+        confidence: round(onset.section.confidence),
+      })
+    }
+    data.frames++
+  }
+
+  private recordStream(stream: RecordedStream, onset: { flux: number, meanFlux: number, event: boolean }, frame: number): void {
+    stream.flux.push(round(onset.flux))
+    stream.meanFlux.push(round(onset.meanFlux))
+    if (onset.event)
+      stream.events.push(frame)
+  }
+}
+
+/**
+ * Check that parsed JSON is a recording this version can replay.
+ * Throws an Error describing the first problem found.
+ */
+export function parseRecording(json: unknown): OnsetRecording {
+  const data = json as Partial<OnsetRecording> | null
+  if (!data || typeof data !== 'object')
+    throw new Error('Recording is not a JSON object')
+  if (data.version !== RECORDING_VERSION)
+    throw new Error(`Unsupported recording version: ${String(data.version)}`)
+  if (typeof data.frames !== 'number' || data.frames < 1)
+    throw new Error('Recording has no frames')
+
+  const frames = data.frames
+  const columns = [
+    data.deltaTime,
+    data.full?.flux,
+    data.full?.meanFlux,
+    data.tempo?.bpm,
+    data.tempo?.confidence,
+    data.tempo?.phase,
+    data.tempo?.nextBeatIn,
+    ...(data.bands ?? []).map(band => band.flux),
+    ...(data.bands ?? []).map(band => band.meanFlux),
+  ]
+  if (columns.some(column => !Array.isArray(column) || column.length !== frames))
+    throw new Error('Recording columns do not match its frame count')
+  const eventLists = [data.full?.events, data.tempo?.beats, ...(data.bands ?? []).map(band => band.events)]
+  if (eventLists.some(list => !Array.isArray(list)))
+    throw new Error('Recording is missing an event list')
+  if (!Array.isArray(data.bandNames) || data.bandNames.length !== data.bands?.length)
+    throw new Error('Recording band names do not match its bands')
+  if (!Array.isArray(data.sections) || !data.sections.length || data.sections[0].frame !== 0)
+    throw new Error('Recording is missing its opening section')
+
+  return data as OnsetRecording
+}
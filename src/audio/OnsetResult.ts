@@ -1,11 +1,76 @@
+import type { AnalyserConfig } from './AnalyserConfig'
+import type { BeatMap } from './BeatMap'
+
+export interface BandOnset {
+  /** Band name, as given in its BandDefinition */
+  name: string
+  flux: number
+  meanFlux: number
+  event: boolean
+}
+
+export interface TempoResult {
+  /** Estimated tempo, 0 until enough onsets have been heard */
+  bpm: number
+  /** How strongly the onsets agree on the tempo (0-1) */
+  confidence: number
+  /** Position within the current beat (0-1), 0 on the beat */
+  phase: number
+  /** True on the frame a predicted beat falls */
+  beat: boolean
+  /** Seconds until the next predicted beat */
+  nextBeatIn: number
+  /**
+   * Seconds from now to each beat due in the next few seconds. Only a
+   * pre-analysed file knows its beats ahead; live analysers leave it empty.
+   */
+  upcomingBeats: number[]
+}
+
+export type SectionName = 'intro' | 'build-up' | 'drop' | 'breakdown' | 'outro'
+
+export interface SectionResult {
+  /** Section currently playing */
+  name: SectionName
+  /** Section played before the last change */
+  previous: SectionName
+  /** How clearly the section stands out from the alternatives (0-1) */
+  confidence: number
+  /** True on the frame the section changes */
+  changed: boolean
+  /** Seconds since the section began */
+  elapsed: number
+}
+
 export interface OnsetResult {
   flux: number
   meanFlux: number
   event: boolean
+  /** Per-band results, in the order the analyser's bands were defined */
+  bands: BandOnset[]
+  tempo: TempoResult
+  section: SectionResult
 }
 
 export interface OnsetAnalyser {
   update: (time: number) => OnsetResult
+  /** Seconds scenes should advance this frame, for analysers that replay recorded timing */
+  frameTime?: number
 }
 
-export type AudioCallback = (source: AudioNode, audioCtx: AudioContext) => void
+/** An analyser fed by connecting a source to its AnalyserNode */
+export interface LiveOnsetAnalyser extends OnsetAnalyser {
+  /** Node the audio source is connected to */
+  analyser: AudioNode
+  /** Apply tuned parameters while running; fields a detector does not use are ignored */
+  configure?: (config: Readonly<AnalyserConfig>) => void
+  /** Release any audio thread resources once the analyser is replaced */
+  dispose?: () => void
+}
+
+/** A decoded file's beat map and where playback currently is within it */
+export interface PreAnalysed {
+  map: BeatMap
+  /** Seconds into the mapped audio, following pauses, seeks and rate changes */
+  position: () => number
+}
@@ -0,0 +1,98 @@
+import type { AnalyserConfig } from './AnalyserConfig'
+import type { BandOnset } from './OnsetResult'
+
+// =============================================================================
+// Peak Picking Constants
+// =============================================================================
+
+const PEAK = {
+  /** Frames of flux history the median threshold is taken over */
+  MEDIAN_WINDOW: 32,
+  /** Multiplier applied to the median flux */
+  THRESHOLD_MULTIPLIER: 1.5,
+  /** Constant added to the threshold so silence never triggers */
+  THRESHOLD_OFFSET: 0.004,
+  /** Minimum seconds between two onsets in the same stream */
+  MIN_INTERVAL: 0.1,
+} as const
+
+/** The fields of one flux stream a PeakPicker reads and writes */
+export type FluxStream = Pick<BandOnset, 'flux' | 'meanFlux' | 'event'>
+
+/** The analyser settings a PeakPicker follows */
+export type PeakConfig = Pick<AnalyserConfig, 'fluxWindow' | 'thresholdFloor' | 'thresholdDecay'>
+
+/**
+ * Median threshold and peak picking for one flux stream.
+ * A peak is reported the frame after it happens, once the flux has started
+ * to fall, so `event` never fires twice on the same rising edge. It must
+ * also clear a ratio to meanFlux that is raised by each onset and falls back
+ * to the floor, as in OnsetByAverage.
+ */
+export class PeakPicker {
+  private config: Readonly<PeakConfig>
+  private history: number[] = Array.from({ length: PEAK.MEDIAN_WINDOW }).fill(0) as number[]
+  /** The last fluxWindow values, averaged into meanFlux */
+  private recent: number[]
+  private ratio: number
+  private prev = 0
+  private prevPrev = 0
+  private prevMean = 0
+  private prevThreshold = Infinity
+  private sinceOnset = Infinity
+
+  constructor(config: Readonly<PeakConfig>) {
+    this.config = config
+    this.recent = Array.from({ length: config.fluxWindow }).fill(0) as number[]
+    this.ratio = config.thresholdFloor
+  }
+
+  /** Apply a new config, keeping the most recent flux */
+  configure(config: Readonly<PeakConfig>): void {
+    this.config = config
+    while (this.recent.length > config.fluxWindow)
+      this.recent.shift()
+    while (this.recent.length < config.fluxWindow)
+      this.recent.unshift(this.recent[0] ?? 0)
+    this.ratio = Math.max(this.ratio, config.thresholdFloor)
+  }
+
+  detect(onset: FluxStream, time: number): void {
+    const { config } = this
+    this.sinceOnset += time
+
+    // local maximum one frame back that cleared both of its thresholds
+    const isPeak = this.prev > this.prevPrev
+      && this.prev >= onset.flux
+      && this.prev > this.prevThreshold
+      && this.prev > this.prevMean * this.ratio
+      && this.sinceOnset > PEAK.MIN_INTERVAL
+    onset.event = isPeak
+    if (isPeak)
+      this.sinceOnset = 0
+    if (isPeak && this.prevMean > 0)
+      this.ratio = Math.max(this.ratio, this.prev / this.prevMean)
+
+    this.history.push(onset.flux)
+    this.history.shift()
+    const sorted = this.history.slice().sort((a, b) => a - b)
+    const median = sorted[Math.floor(sorted.length / 2)]
+
+    this.recent.push(onset.flux)
+    this.recent.shift()
+    let total = 0
+    for (const flux of this.recent)
+      total += flux
+    onset.meanFlux = total / this.recent.length
+
+    // the raised ratio falls back faster while the flux is low
+    if (onset.meanFlux > 0)
+      this.ratio -= time * this.ratio / (onset.flux / onset.meanFlux) / config.thresholdDecay
+    this.ratio = Math.max(this.ratio, config.thresholdFloor)
+
+    this.prevPrev = this.prev
+    this.prev = onset.flux
+    this.prevMean = onset.meanFlux
+    this.prevThreshold = median * PEAK.THRESHOLD_MULTIPLIER + PEAK.THRESHOLD_OFFSET
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'bun:test'
+import { PlaybackController } from './PlaybackController'
+
+/** Records how each source was started and stopped */
+class FakeSource {
+  buffer: unknown
+  playbackRate = { value: 1 }
+  loop = false
+  loopStart = 0
+  loopEnd = 0
+  onended: (() => void) | null = null
+  startedWith: [number, number] | undefined
+  stopped = false
+
+  connect(): void {}
+  disconnect(): void {}
+
+  start(when: number, offset: number): void {
+    this.startedWith = [when, offset]
+  }
+
+  stop(): void {
+    this.stopped = true
+  }
+}
+
+function createController(duration = 60): { controller: PlaybackController, ctx: { currentTime: number }, sources: FakeSource[] } {
+  const sources: FakeSource[] = []
+  const ctx = {
+    currentTime: 0,
+    createBufferSource: () => {
+      const source = new FakeSource()
+      sources.push(source)
+      return source
+    },
+  }
+  const buffer = { duration } as AudioBuffer
+  const controller = new PlaybackController(ctx as unknown as BaseAudioContext, buffer, {} as AudioNode)
+  return { controller, ctx, sources }
+}
+
+describe('PlaybackController', () => {
+  it('follows the context clock while playing and holds still when paused', () => {
+    const { controller, ctx, sources } = createController()
+    controller.play()
+    ctx.currentTime = 10
+    expect(controller.position).toBe(10)
+    controller.pause()
+    expect(sources[0].stopped).toBe(true)
+    ctx.currentTime = 20
+    expect(controller.position).toBe(10)
+  })
+
+  it('resumes and seeks by starting a new source at the offset', () => {
+    const { controller, ctx, sources } = createController()
+    controller.play()
+    ctx.currentTime = 5
+    controller.pause()
+    controller.play()
+    expect(sources[1].startedWith).toEqual([5, 5])
+    controller.seek(30)
+    expect(sources[2].startedWith).toEqual([5, 30])
+    expect(controller.position).toBe(30)
+  })
+
+  it('counts time at the playback rate', () => {
+    const { controller, ctx } = createController()
+    controller.play()
+    ctx.currentTime = 4
+    controller.setRate(2)
+    ctx.currentTime = 6
+    expect(controller.position).toBe(8)
+    expect(controller.remaining).toBe(26)
+  })
+
+  it('wraps the position inside an A-B loop', () => {
+    const { controller, ctx, sources } = createController()
+    controller.play()
+    controller.setLoop(10, 20)
+    const looped = sources[sources.length - 1]
+    expect(looped.loop).toBe(true)
+    expect(looped.startedWith).toEqual([0, 10])
+    ctx.currentTime = 15
+    expect(controller.position).toBe(15)
+    expect(controller.remaining).toBe(Infinity)
+    controller.seek(40)
+    expect(controller.loop).toBeUndefined()
+  })
+
+  it('reports the natural end but not a replaced source ending', () => {
+    const { controller, sources } = createController()
+    let ended = 0
+    controller.onEnded = () => ended++
+    controller.play()
+    controller.seek(10)
+    sources[0].onended?.()
+    expect(ended).toBe(0)
+    sources[1].onended?.()
+    expect(ended).toBe(1)
+    expect(controller.playing).toBe(false)
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * Transport controls, whether a decoded buffer or a media element is playing.
+ */
+export interface Playback {
+  readonly playing: boolean
+  readonly rate: number
+  /** A-B loop in seconds, if one is set */
+  readonly loop: { start: number, end: number } | undefined
+  /** Called when playback reaches the end on its own */
+  onEnded: (() => void) | undefined
+  readonly duration: number
+  readonly position: number
+  /** Seconds of real time until playback runs out; infinite while looping */
+  readonly remaining: number
+  play: () => void
+  pause: () => void
+  toggle: () => void
+  seek: (seconds: number) => void
+  setRate: (rate: number) => void
+  setLoop: (start: number, end: number) => void
+  clearLoop: () => void
+  /** Stop playback for good */
+  stop: () => void
+}
+
+/**
+ * Pause, seek, loop and rate control over a decoded buffer.
+ *
+ * An AudioBufferSourceNode plays once from one offset, so every pause or seek
+ * stops the current node and the next play starts a fresh one at the new
+ * offset. Sources all feed the same output node, so whatever listens to it
+ * (the analyser) stays connected throughout.
+ */
+export class PlaybackController implements Playback {
+  readonly buffer: AudioBuffer
+  playing = false
+  rate = 1
+  /** A-B loop in seconds, if one is set */
+  loop: { start: number, end: number } | undefined
+  /** Called when playback reaches the end of the buffer on its own */
+  onEnded: (() => void) | undefined
+
+  private audioCtx: BaseAudioContext
+  private output: AudioNode
+  private source: AudioBufferSourceNode | undefined
+  /** Buffer position when the current source started, or where playback paused */
+  private offset = 0
+  /** Context time the current source started at */
+  private startedAt = 0
+
+  constructor(audioCtx: BaseAudioContext, buffer: AudioBuffer, output: AudioNode) {
+    this.audioCtx = audioCtx
+    this.buffer = buffer
+    this.output = output
+  }
+
+  get duration(): number {
+    return this.buffer.duration
+  }
+
+  /** Seconds into the buffer, following pauses, seeks, loops and rate changes */
+  get position(): number {
+    if (!this.playing)
+      return this.offset
+    const position = this.offset + (this.audioCtx.currentTime - this.startedAt) * this.rate
+    const { loop } = this
+    if (loop && this.offset < loop.end && position >= loop.end)
+      return loop.start + (position - loop.start) % (loop.end - loop.start)
+    return Math.min(position, this.duration)
+  }
+
+  /** Seconds of real time until the buffer runs out; infinite while looping */
+  get remaining(): number {
+    if (this.loop)
+      return Infinity
+    return (this.duration - this.position) / this.rate
+  }
+
+  play(): void {
+    if (this.playing)
+      return
+    if (this.offset >= this.duration)
+      this.offset = 0
+    const source = this.audioCtx.createBufferSource()
+    source.buffer = this.buffer
+    source.playbackRate.value = this.rate
+    if (this.loop) {
+      source.loop = true
+      source.loopStart = this.loop.start
+      source.loopEnd = this.loop.end
+    }
+    source.connect(this.output)
+    source.onended = () => {
+      if (this.source !== source)
+        return
+      this.source = undefined
+      this.playing = false
+      this.offset = this.duration
+      this.onEnded?.()
+    }
+    this.startedAt = this.audioCtx.currentTime
+    source.start(this.startedAt, this.offset)
+    this.source = source
+    this.playing = true
+  }
+
+  pause(): void {
+    if (!this.playing)
+      return
+    this.offset = this.position
+    this.playing = false
+    this.stopSource()
+  }
+
+  toggle(): void {
+    if (this.playing)
+      this.pause()
+    else
+      this.play()
+  }
+
+  /** Jump to `seconds`; seeking outside an A-B loop clears it */
+  seek(seconds: number): void {
+    const position = Math.min(Math.max(seconds, 0), this.duration)
+    if (this.loop && (position < this.loop.start || position > this.loop.end))
+      this.loop = undefined
+    this.restartAt(position)
+  }
+
+  setRate(rate: number): void {
+    // fold the time played so far in at the old rate before switching
+    this.offset = this.position
+    this.startedAt = this.audioCtx.currentTime
+    this.rate = rate
+    if (this.source)
+      this.source.playbackRate.value = rate
+  }
+
+  /** Loop between two positions, jumping to the start if outside them */
+  setLoop(start: number, end: number): void {
+    const from = Math.min(Math.max(Math.min(start, end), 0), this.duration)
+    const to = Math.min(Math.max(start, end), this.duration)
+    if (to <= from)
+      return
+    this.loop = { start: from, end: to }
+    const position = this.position
+    this.restartAt(position < from || position > to ? from : position)
+  }
+
+  clearLoop(): void {
+    if (!this.loop)
+      return
+    this.loop = undefined
+    this.restartAt(this.position)
+  }
+
+  /** Stop playback for good and release the source */
+  stop(): void {
+    this.onEnded = undefined
+    this.pause()
+  }
+
+  private restartAt(position: number): void {
+    const wasPlaying = this.playing
+    this.pause()
+    this.offset = position
+    if (wasPlaying)
+      this.play()
+  }
+
+  private stopSource(): void {
+    const source = this.source
+    if (!source)
+      return
+    this.source = undefined
+    source.onended = null
+    source.stop()
+    source.disconnect()
+  }
+}
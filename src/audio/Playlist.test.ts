@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test'
+import { Playlist } from './Playlist'
+
+function createPlaylist(names: string[], random?: () => number): Playlist {
+  const playlist = new Playlist(random)
+  playlist.add(names.map(name => new File([], name)))
+  return playlist
+}
+
+/** Names of the tracks `next` returns until the queue is done, capped at `limit` */
+function playOrder(playlist: Playlist, limit = 20): string[] {
+  const order: string[] = []
+  for (let track = playlist.select(0); track && order.length < limit; track = playlist.next())
+    order.push(track.name)
+  return order
+}
+
+describe('Playlist', () => {
+  it('plays the queue in order and stops at the end', () => {
+    const playlist = createPlaylist(['a', 'b', 'c'])
+    expect(playOrder(playlist)).toEqual(['a', 'b', 'c'])
+    expect(playlist.current).toBeUndefined()
+  })
+
+  it('loops the queue or the track when repeating', () => {
+    const playlist = createPlaylist(['a', 'b'])
+    playlist.repeat = 'all'
+    expect(playOrder(playlist, 5)).toEqual(['a', 'b', 'a', 'b', 'a'])
+    playlist.repeat = 'one'
+    expect(playOrder(playlist, 3)).toEqual(['a', 'a', 'a'])
+  })
+
+  it('skips to the next track even when repeating one', () => {
+    const playlist = createPlaylist(['a', 'b'])
+    playlist.repeat = 'one'
+    playlist.select(0)
+    expect(playlist.skip()?.name).toBe('b')
+    expect(playlist.next()?.name).toBe('b')
+  })
+
+  it('shuffles every track once per pass', () => {
+    let seed = 7
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+    const playlist = createPlaylist(['a', 'b', 'c', 'd', 'e'], random)
+    playlist.shuffle = true
+    const order = playOrder(playlist)
+    expect(order.slice().sort()).toEqual(['a', 'b', 'c', 'd', 'e'])
+  })
+
+  it('peeks at the track to come without moving to it', () => {
+    const playlist = createPlaylist(['a', 'b'])
+    playlist.select(0)
+    expect(playlist.peek()?.name).toBe('b')
+    expect(playlist.current?.name).toBe('a')
+    playlist.repeat = 'one'
+    expect(playlist.peek()?.name).toBe('a')
+    playlist.repeat = 'off'
+    playlist.select(1)
+    expect(playlist.peek()).toBeUndefined()
+    expect(playlist.current?.name).toBe('b')
+  })
+
+  it('moves on to the shuffled track it peeked at', () => {
+    let seed = 11
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+    const playlist = createPlaylist(['a', 'b', 'c', 'd', 'e'], random)
+    playlist.shuffle = true
+    playlist.select(0)
+    const peeked = playlist.peek()
+    expect(playlist.peek()).toBe(peeked)
+    expect(playlist.next()).toBe(peeked)
+  })
+
+  it('tells listeners about shuffle and repeat changes', () => {
+    const playlist = createPlaylist(['a'])
+    let changes = 0
+    playlist.onChange(() => changes++)
+    playlist.shuffle = true
+    playlist.repeat = 'all'
+    expect(changes).toBe(2)
+  })
+
+  it('reorders tracks and follows the moved current track', () => {
+    const playlist = createPlaylist(['a', 'b', 'c'])
+    playlist.select(0)
+    playlist.move(0, 2)
+    expect(playlist.tracks.map(track => track.name)).toEqual(['b', 'c', 'a'])
+    expect(playlist.currentIndex).toBe(2)
+    expect(playlist.next()).toBeUndefined()
+  })
+
+  it('continues after a removed current track with the one that followed it', () => {
+    const playlist = createPlaylist(['a', 'b', 'c'])
+    playlist.select(1)
+    playlist.remove(1)
+    expect(playlist.current?.name).toBe('b')
+    expect(playlist.next()?.name).toBe('c')
+  })
+})
@@ -0,0 +1,178 @@
+/** What happens when a track ends: stop at the end, loop the queue, or loop the track */
+export type RepeatMode = 'off' | 'all' | 'one'
+
+export const REPEAT_MODES: readonly RepeatMode[] = ['off', 'all', 'one']
+
+export interface Track {
+  /** Unique for the lifetime of the playlist */
+  id: number
+  name: string
+  file: File
+}
+
+/**
+ * An ordered queue of audio files with shuffle and repeat.
+ * Only decides what plays next; decoding and playback are left to the caller.
+ */
+export class Playlist {
+  tracks: Track[] = []
+  /** The playing track, which may already have been removed from the queue */
+  current: Track | undefined
+
+  private shuffleOn = false
+  private repeatMode: RepeatMode = 'off'
+  private nextId = 0
+  /** Queue position to continue from after the current track was removed */
+  private resumeAt: number | undefined
+  /** Tracks played in this pass through the queue, so shuffle plays each once */
+  private played = new Set<number>()
+  /** The shuffled track to come, kept so peek() and skip() agree until the queue changes */
+  private shufflePick: Track | undefined
+  private listeners: (() => void)[] = []
+  private random: () => number
+
+  constructor(random: () => number = Math.random) {
+    this.random = random
+  }
+
+  get shuffle(): boolean {
+    return this.shuffleOn
+  }
+
+  set shuffle(on: boolean) {
+    this.shuffleOn = on
+    this.emit()
+  }
+
+  get repeat(): RepeatMode {
+    return this.repeatMode
+  }
+
+  set repeat(mode: RepeatMode) {
+    this.repeatMode = mode
+    this.emit()
+  }
+
+  /** Index of the current track in the queue, or -1 */
+  get currentIndex(): number {
+    return this.current ? this.tracks.indexOf(this.current) : -1
+  }
+
+  add(files: readonly File[]): Track[] {
+    const added = files.map(file => ({ id: this.nextId++, name: file.name, file }))
+    this.tracks.push(...added)
+    this.emit()
+    return added
+  }
+
+  remove(index: number): void {
+    const [removed] = this.tracks.splice(index, 1)
+    if (!removed)
+      return
+    if (removed === this.current)
+      this.resumeAt = index
+    this.played.delete(removed.id)
+    this.emit()
+  }
+
+  move(from: number, to: number): void {
+    if (from === to || !this.tracks[from] || to < 0 || to >= this.tracks.length)
+      return
+    const [track] = this.tracks.splice(from, 1)
+    this.tracks.splice(to, 0, track)
+    this.emit()
+  }
+
+  /** Make the track at `index` current */
+  select(index: number): Track | undefined {
+    const track = this.tracks[index]
+    if (!track)
+      return undefined
+    this.current = track
+    this.resumeAt = undefined
+    this.played.add(track.id)
+    this.emit()
+    return track
+  }
+
+  /** The track next() would move to, leaving the queue as it is; undefined when it would be done */
+  peek(): Track | undefined {
+    if (this.repeat === 'one' && this.currentIndex >= 0)
+      return this.current
+    return this.following()
+  }
+
+  /** Advance after the current track ended; undefined when the queue is done */
+  next(): Track | undefined {
+    if (this.repeat === 'one' && this.currentIndex >= 0)
+      return this.select(this.currentIndex)
+    return this.skip()
+  }
+
+  /** Move on at the listener's request, leaving the current track even when it repeats */
+  skip(): Track | undefined {
+    const track = this.following()
+    if (!track)
+      return this.finish()
+    // a shuffled pass is over once every track was played: start the next
+    if (this.shuffle && this.tracks.every(queued => this.played.has(queued.id)))
+      this.played.clear()
+    return this.select(this.tracks.indexOf(track))
+  }
+
+  /** Step back to the track before the current one */
+  previous(): Track | undefined {
+    return this.select(Math.max(this.currentIndex - 1, 0))
+  }
+
+  onChange(listener: () => void): void {
+    this.listeners.push(listener)
+  }
+
+  /** The track after the current one, without moving to it */
+  private following(): Track | undefined {
+    const { tracks } = this
+    if (!tracks.length)
+      return undefined
+
+    if (this.shuffle) {
+      this.shufflePick ??= this.pickUnplayed()
+      return this.shufflePick
+    }
+
+    let index = this.currentIndex >= 0 ? this.currentIndex + 1 : this.resumeAt ?? 0
+    if (index >= tracks.length) {
+      if (this.repeat !== 'all')
+        return undefined
+      index = 0
+    }
+    return tracks[index]
+  }
+
+  private pickUnplayed(): Track | undefined {
+    const { tracks } = this
+    let unplayed = tracks.filter(track => !this.played.has(track.id))
+    if (!unplayed.length) {
+      if (this.repeat !== 'all')
+        return undefined
+      // avoid playing the same track twice in a row across passes
+      unplayed = tracks.length > 1 ? tracks.filter(track => track !== this.current) : tracks
+    }
+    return unplayed[Math.floor(this.random() * unplayed.length)]
+  }
+
+  private finish(): undefined {
+    this.current = undefined
+    this.resumeAt = undefined
+    this.played.clear()
+    this.emit()
+    return undefined
+  }
+
+  private emit(): void {
+    // whatever changed may change which track comes next
+    this.shufflePick = undefined
+    for (const listener of this.listeners)
+      listener()
+  }
+}
@@ -0,0 +1,129 @@
+import type { OnsetResult, SectionName, SectionResult } from './OnsetResult'
+
+// =============================================================================
+// Section Detector Constants
+// =============================================================================
+
+const SECTION = {
+  /** Time constant of the short-term level average (seconds) */
+  SHORT_WINDOW: 2,
+  /** Half-life of the running peak level the short average is compared to (seconds) */
+  PEAK_HALF_LIFE: 60,
+  /** Level the running peak starts from, so a quiet opening is not taken for a drop */
+  INITIAL_PEAK: 0.3,
+  /** Seconds back the level trend is measured over */
+  TREND_WINDOW: 8,
+  /** How often the level history is sampled for the trend (seconds) */
+  TREND_STEP: 0.5,
+  /** Seconds a new section must keep winning before it is switched to */
+  HOLD: 2,
+  /** Minimum seconds spent in a section before it may change */
+  MIN_LENGTH: 8,
+  /** Band whose level tells a drop from a loud build-up */
+  BASS_BAND: 'bass',
+} as const
+
+/** Section names in the order candidates are scored */
+const SECTIONS: readonly SectionName[] = ['intro', 'build-up', 'drop', 'breakdown', 'outro']
+
+/** 0 below `low`, 1 above `high`, smooth in between */
+function ramp(value: number, low: number, high: number): number {
+  const t = Math.min(Math.max((value - low) / (high - low), 0), 1)
+  return t * t * (3 - 2 * t)
+}
+
+/**
+ * Classifies the song's current section from long-window level statistics.
+ *
+ * The short-term level of the full spectrum and of the bass band is compared
+ * with a slowly decaying peak, and its trend over the last few seconds tells
+ * a build-up from a steady passage. Intro is only possible before the first
+ * build-up or drop; breakdown and outro only after one.
+ */
+export class SectionDetector {
+  result: SectionResult = {
+    name: 'intro',
+    previous: 'intro',
+    confidence: 0,
+    changed: false,
+    elapsed: 0,
+  }
+
+  private level = 0
+  private bassLevel = 0
+  private peak: number = SECTION.INITIAL_PEAK
+  private bassPeak: number = SECTION.INITIAL_PEAK
+  private history: number[] = []
+  private sinceSample = 0
+  private heardDrop = false
+  private candidate: SectionName = 'intro'
+  private candidateTime = 0
+
+  update(time: number, onset: Pick<OnsetResult, 'flux' | 'bands'>): SectionResult {
+    const result = this.result
+    result.changed = false
+    result.elapsed += time
+    if (time <= 0)
+      return result
+
+    // short-term levels and their slowly decaying peaks
+    const ease = 1 - Math.exp(-time / SECTION.SHORT_WINDOW)
+    const bass = onset.bands.find(band => band.name === SECTION.BASS_BAND)
+    this.level += (onset.flux - this.level) * ease
+    this.bassLevel += ((bass ? bass.flux : onset.flux) - this.bassLevel) * ease
+    const decay = 0.5 ** (time / SECTION.PEAK_HALF_LIFE)
+    this.peak = Math.max(this.peak * decay, this.level)
+    this.bassPeak = Math.max(this.bassPeak * decay, this.bassLevel)
+
+    const relative = this.level / this.peak
+    const bassRelative = this.bassLevel / this.bassPeak
+
+    // level trend over the last TREND_WINDOW seconds, relative to the peak
+    this.sinceSample += time
+    if (this.sinceSample >= SECTION.TREND_STEP) {
+      this.sinceSample = 0
+      this.history.push(relative)
+      if (this.history.length > SECTION.TREND_WINDOW / SECTION.TREND_STEP)
+        this.history.shift()
+    }
+    const trend = this.history.length ? relative - this.history[0] : 0
+
+    const scores: Record<SectionName, number> = {
+      'intro': this.heardDrop ? 0 : 1 - ramp(relative, 0.5, 0.8),
+      'build-up': ramp(trend, 0.05, 0.25) * ramp(relative, 0.2, 0.4) * (1 - ramp(bassRelative, 0.7, 0.9)),
+      'drop': ramp(relative, 0.6, 0.85) * ramp(bassRelative, 0.5, 0.8),
+      'breakdown': this.heardDrop ? (1 - ramp(relative, 0.35, 0.65)) * (1 - ramp(bassRelative, 0.3, 0.6)) : 0,
+      'outro': this.heardDrop ? (1 - ramp(relative, 0.15, 0.4)) * ramp(-trend, 0.05, 0.2) : 0,
+    }
+
+    let best = result.name
+    let total = 0
+    for (const name of SECTIONS) {
+      total += scores[name]
+      if (scores[name] > scores[best])
+        best = name
+    }
+    const confidence = total > 0 ? scores[best] / total : 0
+
+    // a new section has to keep winning for HOLD seconds before it takes over
+    if (best === result.name) {
+      this.candidateTime = 0
+      result.confidence = confidence
+    }
+    else {
+      this.candidateTime = best === this.candidate ? this.candidateTime + time : time
+      this.candidate = best
+      if (this.candidateTime >= SECTION.HOLD && result.elapsed >= SECTION.MIN_LENGTH) {
+        result.previous = result.name
+        result.name = best
+        result.confidence = confidence
+        result.changed = true
+        result.elapsed = 0
+        this.candidateTime = 0
+        if (best === 'drop' || best === 'build-up')
+          this.heardDrop = true
+      }
+    }
+    return result
+  }
+}
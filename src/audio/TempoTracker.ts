@@ -0,0 +1,144 @@
+import type { TempoResult } from './OnsetResult'
+
+// =============================================================================
+// Tempo Tracker Constants
+// =============================================================================
+
+const TEMPO = {
+  /** Slowest tempo reported; slower intervals are folded up by octaves */
+  MIN_BPM: 70,
+  /** Fastest tempo reported; faster intervals are folded down by octaves */
+  MAX_BPM: 180,
+  /** Seconds of onset history the estimate is built from */
+  WINDOW: 8,
+  /** Longest gap between two onsets that still votes for a tempo */
+  MAX_INTERVAL: 2,
+  /** Width of each vote in BPM */
+  VOTE_WIDTH: 2,
+  /** Onsets needed before a tempo is reported */
+  MIN_ONSETS: 4,
+  /** How far each new estimate moves the reported BPM (0-1) */
+  BPM_SMOOTHING: 0.25,
+  /** How far each onset pulls the beat grid toward itself (0-1) */
+  PHASE_GAIN: 0.2,
+  /** Onsets further than this from the grid (in beats) do not move it */
+  PHASE_WINDOW: 0.25,
+} as const
+
+/**
+ * Estimates tempo and beat phase from a stream of onset events.
+ *
+ * Every pair of recent onsets votes for the tempo its gap implies, folded into
+ * the MIN_BPM-MAX_BPM octave. The winning tempo drives a beat grid that onsets
+ * near a predicted beat nudge into line, so scenes can act on the beat rather
+ * than after it.
+ */
+export class TempoTracker {
+  result: TempoResult = {
+    bpm: 0,
+    confidence: 0,
+    phase: 0,
+    beat: false,
+    nextBeatIn: 0,
+    upcomingBeats: [],
+  }
+
+  private elapsed = 0
+  private onsets: number[] = []
+  private beatTime = -1
+  private votes = new Float32Array(TEMPO.MAX_BPM - TEMPO.MIN_BPM + 1)
+
+  update(time: number, event: boolean): TempoResult {
+    this.elapsed += time
+    this.result.beat = false
+
+    if (event) {
+      this.onsets.push(this.elapsed)
+      while (this.onsets.length && this.elapsed - this.onsets[0] > TEMPO.WINDOW)
+        this.onsets.shift()
+      this.estimate()
+      this.alignGrid(this.elapsed)
+    }
+
+    const { bpm } = this.result
+    if (bpm > 0) {
+      const period = 60 / bpm
+      while (this.elapsed - this.beatTime >= period) {
+        this.beatTime += period
+        this.result.beat = true
+      }
+      this.result.phase = (this.elapsed - this.beatTime) / period
+      this.result.nextBeatIn = period - (this.elapsed - this.beatTime)
+    }
+    return this.result
+  }
+
+  /** Vote on the tempo from every onset pair in the window */
+  private estimate(): void {
+    if (this.onsets.length < TEMPO.MIN_ONSETS)
+      return
+
+    this.votes.fill(0)
+    for (let i = 0; i < this.onsets.length; i++) {
+      for (let j = i + 1; j < this.onsets.length; j++) {
+        const interval = this.onsets[j] - this.onsets[i]
+        if (interval > TEMPO.MAX_INTERVAL)
+          break
+        let bpm = 60 / interval
+        while (bpm < TEMPO.MIN_BPM)
+          bpm *= 2
+        while (bpm > TEMPO.MAX_BPM)
+          bpm /= 2
+        // pairs further apart are more likely to skip or add beats
+        this.vote(bpm, 1 / (j - i))
+      }
+    }
+
+    let best = 0
+    let total = 0
+    for (let i = 0; i < this.votes.length; i++) {
+      total += this.votes[i]
+      if (this.votes[i] > this.votes[best])
+        best = i
+    }
+    if (total <= 0)
+      return
+
+    // confidence is the share of votes landing near the winner
+    let near = 0
+    const spread = TEMPO.VOTE_WIDTH * 2
+    for (let i = Math.max(best - spread, 0); i <= Math.min(best + spread, this.votes.length - 1); i++)
+      near += this.votes[i]
+    this.result.confidence = near / total
+
+    const bpm = best + TEMPO.MIN_BPM
+    if (this.result.bpm === 0)
+      this.result.bpm = bpm
+    else
+      this.result.bpm += (bpm - this.result.bpm) * TEMPO.BPM_SMOOTHING
+  }
+
+  private vote(bpm: number, weight: number): void {
+    const first = Math.max(Math.floor(bpm - TEMPO.VOTE_WIDTH * 2), TEMPO.MIN_BPM)
+    const last = Math.min(Math.ceil(bpm + TEMPO.VOTE_WIDTH * 2), TEMPO.MAX_BPM)
+    for (let b = first; b <= last; b++) {
+      const distance = (b - bpm) / TEMPO.VOTE_WIDTH
+      this.votes[b - TEMPO.MIN_BPM] += weight * Math.exp(-0.5 * distance * distance)
+    }
+  }
+
+  /** Pull the beat grid toward an onset that lands close to a predicted beat */
+  private alignGrid(onsetTime: number): void {
+    if (this.result.bpm <= 0)
+      return
+    if (this.beatTime < 0) {
+      this.beatTime = onsetTime
+      return
+    }
+    const period = 60 / this.result.bpm
+    const beats = (onsetTime - this.beatTime) / period
+    const error = beats - Math.round(beats)
+    if (Math.abs(error) < TEMPO.PHASE_WINDOW)
+      this.beatTime += error * period * TEMPO.PHASE_GAIN
+  }
+}
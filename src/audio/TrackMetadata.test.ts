@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'bun:test'
+import { parseMetadata } from './TrackMetadata'
+
+// =============================================================================
+// Byte Builders
+// =============================================================================
+
+const COVER = Uint8Array.from([0xFF, 0xD8, 0xFF, 0xE0, 1, 2, 3])
+
+function bytes(...parts: (string | number[] | Uint8Array)[]): Uint8Array {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? Uint8Array.from(part, char => char.charCodeAt(0))
+    : Uint8Array.from(part))
+  const out = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0))
+  let pos = 0
+  for (const array of arrays) {
+    out.set(array, pos)
+    pos += array.length
+  }
+  return out
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text)
+}
+
+function u32be(value: number): number[] {
+  return [(value >>> 24) & 0xFF, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF]
+}
+
+function u32le(value: number): number[] {
+  return u32be(value).reverse()
+}
+
+function syncsafe(value: number): number[] {
+  return [(value >> 21) & 0x7F, (value >> 14) & 0x7F, (value >> 7) & 0x7F, value & 0x7F]
+}
+
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+  return bytes(id, u32be(body.length), [0, 0], body)
+}
+
+function id3(...frames: Uint8Array[]): Uint8Array {
+  const body = bytes(...frames)
+  return bytes('ID3', [3, 0, 0], syncsafe(body.length), body, [0xFF, 0xFB, 0x90, 0])
+}
+
+function vorbisComments(comments: string[]): Uint8Array {
+  return bytes(u32le(6), 'vendor', u32le(comments.length), ...comments.flatMap(comment => [u32le(utf8(comment).length), utf8(comment)]))
+}
+
+function flacPicture(): Uint8Array {
+  return bytes(u32be(3), u32be(10), 'image/jpeg', u32be(0), u32be(1), u32be(1), u32be(24), u32be(0), u32be(COVER.length), COVER)
+}
+
+function atom(type: string, ...children: Uint8Array[]): Uint8Array {
+  const body = bytes(...children)
+  return bytes(u32be(body.length + 8), type, body)
+}
+
+function ilstItem(type: string, dataType: number, payload: Uint8Array): Uint8Array {
+  return atom(type, atom('data', bytes(u32be(dataType), u32be(0), payload)))
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('parseMetadata', () => {
+  it('reads ID3v2.3 text frames and the front cover', () => {
+    const file = id3(
+      id3Frame('TIT2', bytes([3], utf8('Süden'))),
+      id3Frame('TPE1', bytes([1, 0xFF, 0xFE], [0x41, 0, 0x42, 0])),
+      id3Frame('TALB', bytes([0], 'Album')),
+      id3Frame('APIC', bytes([0], 'image/png', [0], [4], 'back', [0], [1, 2])),
+      id3Frame('APIC', bytes([0], 'image/jpeg', [0], [3], 'front', [0], COVER)),
+    )
+    const metadata = parseMetadata(file, 'track.mp3')
+    expect(metadata).toMatchObject({ title: 'Süden', artist: 'AB', album: 'Album' })
+    expect(metadata.cover?.mime).toBe('image/jpeg')
+    expect(metadata.cover?.data).toEqual(COVER)
+  })
+
+  it('reads FLAC Vorbis comments and picture blocks', () => {
+    const comments = vorbisComments(['TITLE=Flac Song', 'artist=Someone', 'ALBUM=Lossless'])
+    const picture = flacPicture()
+    const file = bytes(
+      'fLaC',
+      [0, 0, 0, 34],
+      new Uint8Array(34),
+      [4, 0, 0, comments.length],
+      comments,
+      [0x86, 0, 0, picture.length],
+      picture,
+    )
+    const metadata = parseMetadata(file, 'track.flac')
+    expect(metadata).toMatchObject({ title: 'Flac Song', artist: 'Someone', album: 'Lossless' })
+    expect(metadata.cover?.data).toEqual(COVER)
+  })
+
+  it('reads Ogg Vorbis comments with an embedded picture', () => {
+    const picture = btoa(String.fromCharCode(...flacPicture()))
+    const identification = bytes([1], 'vorbis', new Uint8Array(23))
+    const comments = bytes([3], 'vorbis', vorbisComments(['TITLE=Ogg Song', `METADATA_BLOCK_PICTURE=${picture}`]), [1])
+    const page = (serial: number, packets: Uint8Array[]) => {
+      const segments = packets.flatMap((packet) => {
+        const lengths = Array.from({ length: Math.floor(packet.length / 255) }).fill(255) as number[]
+        return [...lengths, packet.length % 255]
+      })
+      return bytes('OggS', [0, 2], new Uint8Array(8), u32le(serial), u32le(0), u32le(0), [segments.length], segments, ...packets)
+    }
+    const file = bytes(page(7, [identification]), page(7, [comments]))
+    const metadata = parseMetadata(file, 'track.ogg')
+    expect(metadata.title).toBe('Ogg Song')
+    expect(metadata.cover?.data).toEqual(COVER)
+  })
+
+  it('reads MP4 ilst atoms', () => {
+    const list = atom(
+      'ilst',
+      ilstItem('©nam', 1, utf8('M4A Song')),
+      ilstItem('©ART', 1, utf8('Artist')),
+      ilstItem('covr', 13, COVER),
+    )
+    const meta = atom('meta', new Uint8Array(4), atom('hdlr', new Uint8Array(25)), list)
+    const file = bytes(atom('ftyp', bytes('M4A ', u32be(0))), atom('moov', atom('udta', meta)))
+    const metadata = parseMetadata(file, 'track.m4a')
+    expect(metadata).toMatchObject({ title: 'M4A Song', artist: 'Artist' })
+    expect(metadata.cover).toEqual({ mime: 'image/jpeg', data: COVER })
+  })
+
+  it('falls back to the file name for untagged or broken files', () => {
+    expect(parseMetadata(new Uint8Array(64), 'music/My Track.wav')).toEqual({ title: 'My Track' })
+    expect(parseMetadata(bytes('ID3', [3, 0, 0], syncsafe(500), 'TIT2'), 'cut.mp3').title).toBe('cut')
+  })
+})
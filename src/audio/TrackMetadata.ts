@@ -0,0 +1,340 @@
+/** Embedded cover image, still encoded */
+export interface CoverArt {
+  mime: string
+  data: Uint8Array<ArrayBuffer>
+}
+
+/**
+ * What a file says about itself. Any field may be missing; title falls back
+ * to the file name.
+ */
+export interface TrackMetadata {
+  title: string
+  artist?: string
+  album?: string
+  cover?: CoverArt
+}
+
+type Fields = Omit<TrackMetadata, 'title'> & { title?: string }
+
+/** ID3v2 picture type of the front cover, preferred over other pictures */
+const FRONT_COVER = 3
+
+const latin1 = new TextDecoder('latin1')
+const utf8 = new TextDecoder('utf-8')
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return latin1.decode(bytes.subarray(start, start + length))
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+/** Drop the extension and any path from a file name */
+function titleFromName(name: string): string {
+  return name.replace(/^.*[/\\]/, '').replace(/\.[^.]+$/, '')
+}
+
+/** Keep the first non-empty value seen for each field */
+function merge(fields: Fields, key: 'title' | 'artist' | 'album', value: string | undefined): void {
+  const trimmed = value?.trim()
+  if (trimmed && !fields[key])
+    fields[key] = trimmed
+}
+
+// =============================================================================
+// ID3v2
+// =============================================================================
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3]
+}
+
+/** Undo ID3 unsynchronisation, which inserts a zero after every 0xFF */
+function resync(bytes: Uint8Array): Uint8Array {
+  const out: number[] = []
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i])
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0)
+      i++
+  }
+  return Uint8Array.from(out)
+}
+
+function decodeText(bytes: Uint8Array, encoding: number): string {
+  let text: string
+  if (encoding === 1)
+    text = new TextDecoder(bytes[0] === 0xFE ? 'utf-16be' : 'utf-16le').decode(bytes)
+  else if (encoding === 2)
+    text = new TextDecoder('utf-16be').decode(bytes)
+  else if (encoding === 3)
+    text = utf8.decode(bytes)
+  else
+    text = latin1.decode(bytes)
+  // strip the BOM, then keep the first of any null separated values
+  return text.replace(/^\uFEFF/, '').split('\0')[0]
+}
+
+/** Index just past the null terminator at or after `start` in the given encoding */
+function skipTerminated(bytes: Uint8Array, start: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0))
+      return i + (wide ? 2 : 1)
+  }
+  return bytes.length
+}
+
+function parseId3(bytes: Uint8Array, fields: Fields): void {
+  const version = bytes[3]
+  const flags = bytes[5]
+  let tag = bytes.subarray(10, 10 + syncsafe(bytes, 6))
+  if (flags & 0x80 && version < 4)
+    tag = resync(tag)
+
+  let offset = 0
+  if (flags & 0x40)
+    offset = version === 4 ? syncsafe(tag, 0) : view(tag).getUint32(0) + 4
+
+  const idLength = version === 2 ? 3 : 4
+  const headerLength = version === 2 ? 6 : 10
+  let cover: { type: number, art: CoverArt } | undefined
+
+  while (offset + headerLength <= tag.length) {
+    const id = ascii(tag, offset, idLength)
+    if (!/^[A-Z0-9]+$/.test(id))
+      break
+    let size: number
+    if (version === 2)
+      size = (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+    else if (version === 4)
+      size = syncsafe(tag, offset + 4)
+    else
+      size = view(tag).getUint32(offset + 4)
+    const frame = tag.subarray(offset + headerLength, offset + headerLength + size)
+    offset += headerLength + size
+    if (!frame.length)
+      continue
+
+    const encoding = frame[0]
+    if (id === 'TIT2' || id === 'TT2') {
+      merge(fields, 'title', decodeText(frame.subarray(1), encoding))
+    }
+    else if (id === 'TPE1' || id === 'TP1') {
+      merge(fields, 'artist', decodeText(frame.subarray(1), encoding))
+    }
+    else if (id === 'TALB' || id === 'TAL') {
+      merge(fields, 'album', decodeText(frame.subarray(1), encoding))
+    }
+    else if (id === 'APIC' || id === 'PIC') {
+      let mime: string
+      let pos: number
+      if (id === 'PIC') {
+        mime = `image/${ascii(frame, 1, 3).toLowerCase().replace('jpg', 'jpeg')}`
+        pos = 4
+      }
+      else {
+        pos = skipTerminated(frame, 1, 0)
+        mime = ascii(frame, 1, pos - 2) || 'image/jpeg'
+      }
+      const type = frame[pos]
+      pos = skipTerminated(frame, pos + 1, encoding)
+      if (!cover || (type === FRONT_COVER && cover.type !== FRONT_COVER))
+        cover = { type, art: { mime, data: frame.slice(pos) } }
+    }
+  }
+  fields.cover ??= cover?.art
+}
+
+// =============================================================================
+// Vorbis comments (FLAC and Ogg)
+// =============================================================================
+
+/** Decode a FLAC PICTURE block, also found base64 encoded in Vorbis comments */
+function parsePicture(block: Uint8Array): CoverArt | undefined {
+  const data = view(block)
+  let pos = 4
+  const mimeLength = data.getUint32(pos)
+  const mime = ascii(block, pos + 4, mimeLength)
+  pos += 4 + mimeLength
+  pos += 4 + data.getUint32(pos)
+  // width, height, depth and colour count
+  pos += 16
+  const length = data.getUint32(pos)
+  return length ? { mime, data: block.slice(pos + 4, pos + 4 + length) } : undefined
+}
+
+function parseVorbisComments(block: Uint8Array, fields: Fields): void {
+  const data = view(block)
+  let pos = 4 + data.getUint32(0, true)
+  const count = data.getUint32(pos, true)
+  pos += 4
+  for (let i = 0; i < count && pos + 4 <= block.length; i++) {
+    const length = data.getUint32(pos, true)
+    const comment = block.subarray(pos + 4, pos + 4 + length)
+    pos += 4 + length
+    const split = comment.indexOf(0x3D) // '='
+    if (split < 0)
+      continue
+    const key = ascii(comment, 0, split).toUpperCase()
+    const value = comment.subarray(split + 1)
+    if (key === 'TITLE') {
+      merge(fields, 'title', utf8.decode(value))
+    }
+    else if (key === 'ARTIST') {
+      merge(fields, 'artist', utf8.decode(value))
+    }
+    else if (key === 'ALBUM') {
+      merge(fields, 'album', utf8.decode(value))
+    }
+    else if (key === 'METADATA_BLOCK_PICTURE' && !fields.cover) {
+      const binary = atob(latin1.decode(value))
+      fields.cover = parsePicture(Uint8Array.from(binary, char => char.charCodeAt(0)))
+    }
+  }
+}
+
+function parseFlac(bytes: Uint8Array, fields: Fields): void {
+  let pos = 4
+  let last = false
+  while (!last && pos + 4 <= bytes.length) {
+    const header = bytes[pos]
+    last = (header & 0x80) !== 0
+    const type = header & 0x7F
+    const length = (bytes[pos + 1] << 16) | (bytes[pos + 2] << 8) | bytes[pos + 3]
+    const block = bytes.subarray(pos + 4, pos + 4 + length)
+    pos += 4 + length
+    if (type === 4)
+      parseVorbisComments(block, fields)
+    else if (type === 6)
+      fields.cover ??= parsePicture(block)
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let pos = 0
+  for (const chunk of chunks) {
+    out.set(chunk, pos)
+    pos += chunk.length
+  }
+  return out
+}
+
+/** Reassemble the first two packets of the first Ogg stream and read its comment header */
+function parseOgg(bytes: Uint8Array, fields: Fields): void {
+  const packets: Uint8Array[] = []
+  let packet: Uint8Array[] = []
+  let pos = 0
+  let serial: number | undefined
+  while (packets.length < 2 && pos + 27 <= bytes.length && ascii(bytes, pos, 4) === 'OggS') {
+    const pageSerial = view(bytes).getUint32(pos + 14, true)
+    const segments = bytes[pos + 26]
+    let dataPos = pos + 27 + segments
+    serial ??= pageSerial
+    for (let i = 0; i < segments; i++) {
+      const length = bytes[pos + 27 + i]
+      if (pageSerial === serial) {
+        packet.push(bytes.subarray(dataPos, dataPos + length))
+        // a segment shorter than 255 bytes ends the packet
+        if (length < 255) {
+          packets.push(concat(packet))
+          packet = []
+        }
+      }
+      dataPos += length
+    }
+    pos = dataPos
+  }
+
+  const comments = packets[1]
+  if (!comments)
+    return
+  if (ascii(comments, 0, 7) === '\x03vorbis')
+    parseVorbisComments(comments.subarray(7), fields)
+  else if (ascii(comments, 0, 8) === 'OpusTags')
+    parseVorbisComments(comments.subarray(8), fields)
+}
+
+// =============================================================================
+// MP4 atoms
+// =============================================================================
+
+/** Child atoms of an atom's payload, by type */
+function atoms(bytes: Uint8Array): Map<string, Uint8Array> {
+  const children = new Map<string, Uint8Array>()
+  const data = view(bytes)
+  let pos = 0
+  while (pos + 8 <= bytes.length) {
+    let size = data.getUint32(pos)
+    const type = ascii(bytes, pos + 4, 4)
+    let header = 8
+    if (size === 1) {
+      size = data.getUint32(pos + 8) * 2 ** 32 + data.getUint32(pos + 12)
+      header = 16
+    }
+    else if (size === 0) {
+      size = bytes.length - pos
+    }
+    if (size < header)
+      break
+    if (!children.has(type))
+      children.set(type, bytes.subarray(pos + header, pos + size))
+    pos += size
+  }
+  return children
+}
+
+function parseMp4(bytes: Uint8Array, fields: Fields): void {
+  const meta = atoms(atoms(atoms(bytes).get('moov') ?? new Uint8Array(0)).get('udta') ?? new Uint8Array(0)).get('meta')
+  // meta is a full box: version and flags come before its children
+  const list = meta && atoms(meta.subarray(4)).get('ilst')
+  if (!list)
+    return
+  const items = atoms(list)
+  // each item holds a data atom: type indicator, locale, then the value
+  const value = (key: string) => {
+    const item = items.get(key)
+    return item && atoms(item).get('data')
+  }
+  const text = (key: string) => {
+    const data = value(key)
+    return data && utf8.decode(data.subarray(8))
+  }
+  merge(fields, 'title', text('©nam'))
+  merge(fields, 'artist', text('©ART'))
+  merge(fields, 'album', text('©alb'))
+  const cover = value('covr')
+  if (cover && !fields.cover)
+    fields.cover = { mime: view(cover).getUint32(0) === 14 ? 'image/png' : 'image/jpeg', data: cover.slice(8) }
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/**
+ * Read title, artist, album and cover art from an audio file's bytes.
+ * Understands ID3v2 (MP3 and others), FLAC and Ogg Vorbis/Opus comments and
+ * MP4/M4A atoms. Malformed tags are ignored rather than thrown, leaving the
+ * file name as the title.
+ */
+export function parseMetadata(bytes: Uint8Array, fileName: string): TrackMetadata {
+  const fields: Fields = {}
+  try {
+    const magic = ascii(bytes, 0, 4)
+    if (magic.startsWith('ID3'))
+      parseId3(bytes, fields)
+    else if (magic === 'fLaC')
+      parseFlac(bytes, fields)
+    else if (magic === 'OggS')
+      parseOgg(bytes, fields)
+    else if (ascii(bytes, 4, 4) === 'ftyp')
+      parseMp4(bytes, fields)
+  }
+  catch {
+    // a truncated or unusual tag: keep whatever was read before it
+  }
+  return { ...fields, title: fields.title ?? titleFromName(fileName) }
+}
@@ -0,0 +1,48 @@
+import type { AnalyserConfig } from './AnalyserConfig'
+import type { LiveOnsetAnalyser } from './OnsetResult'
+import { DEFAULT_BANDS } from './FrequencyBands'
+import { OnsetByAverage } from './OnsetByAverage'
+import { OnsetBySpectralFlux } from './OnsetBySpectralFlux'
+import { OnsetByWorklet, supportsWorklet } from './OnsetByWorklet'
+
+/** The worklet analyser where the context supports it, else OnsetByAverage */
+function createWorkletOrAverage(audioCtx: AudioContext, config: Readonly<AnalyserConfig>): LiveOnsetAnalyser {
+  return supportsWorklet(audioCtx)
+    ? new OnsetByWorklet(audioCtx, DEFAULT_BANDS, config)
+    : new OnsetByAverage(audioCtx, DEFAULT_BANDS, config)
+}
+
+/**
+ * Onset detectors selectable from the overlay, keyed by id.
+ * `create` builds the live analyser for an input with the current tuning; the
+ * beat map detector only differs for decoded files, which play their BeatMap
+ * back instead.
+ */
+export const DETECTORS = {
+  'beat-map': {
+    label: 'Beat Map (pre-analysed files)',
+    create: createWorkletOrAverage,
+  },
+  'worklet': {
+    label: 'AudioWorklet (fixed hop)',
+    create: createWorkletOrAverage,
+  },
+  'average': {
+    label: 'Average',
+    create: (audioCtx: AudioContext, config: Readonly<AnalyserConfig>): LiveOnsetAnalyser =>
+      new OnsetByAverage(audioCtx, DEFAULT_BANDS, config),
+  },
+  'spectral-flux': {
+    label: 'Spectral Flux',
+    create: (audioCtx: AudioContext, config: Readonly<AnalyserConfig>): LiveOnsetAnalyser =>
+      new OnsetBySpectralFlux(audioCtx, DEFAULT_BANDS, config),
+  },
+} as const
+
+export type DetectorId = keyof typeof DETECTORS
+
+export const DEFAULT_DETECTOR: DetectorId = 'beat-map'
+
+export function isDetectorId(id: string): id is DetectorId {
+  return Object.hasOwn(DETECTORS, id)
+}
@@ -0,0 +1,127 @@
+import type { OnsetResult } from '../audio/OnsetResult'
+import type { SceneInfo } from './Scene'
+import { describe, expect, it } from 'bun:test'
+import { Autopilot } from './Autopilot'
+
+function onset(flux: number, beat = false): OnsetResult {
+  return { flux, event: false, tempo: { beat, bpm: beat ? 120 : 0 } } as unknown as OnsetResult
+}
+
+function scene(id: string): SceneInfo {
+  return { id, name: id, description: '', tags: [], author: '' }
+}
+
+/** An autopilot with every rule off, to turn on one at a time */
+function createAutopilot(random = () => 0.5): Autopilot {
+  const autopilot = new Autopilot(random)
+  autopilot.enabled = true
+  autopilot.config = { bars: 0, energyJump: 0, quietSeconds: 0, randomSeconds: 0, minDwell: 0 }
+  return autopilot
+}
+
+/** Run frames of 0.1s, returning the frames (from 1) a switch was called for */
+function run(autopilot: Autopilot, frames: OnsetResult[]): number[] {
+  const switches: number[] = []
+  frames.forEach((frame, index) => {
+    if (autopilot.update(0.1, frame)) {
+      switches.push(index + 1)
+      autopilot.reset()
+    }
+  })
+  return switches
+}
+
+describe('Autopilot rules', () => {
+  it('switches on the downbeat after the set number of bars', () => {
+    const autopilot = createAutopilot()
+    autopilot.config.bars = 2
+    // a beat every fifth frame
+    const frames = Array.from({ length: 100 }, (_, i) => onset(1, i % 5 === 4))
+    expect(run(autopilot, frames)).toEqual([40, 80])
+  })
+
+  it('waits out the minimum dwell', () => {
+    const autopilot = createAutopilot()
+    autopilot.config.bars = 1
+    autopilot.config.minDwell = 3
+    const frames = Array.from({ length: 60 }, (_, i) => onset(1, i % 5 === 4))
+    expect(run(autopilot, frames)).toEqual([40])
+  })
+
+  it('switches once when the energy jumps', () => {
+    const autopilot = createAutopilot()
+    autopilot.config.energyJump = 2
+    const frames = [...Array.from({ length: 100 }, () => onset(1)), ...Array.from({ length: 20 }, () => onset(6))]
+    const switches = run(autopilot, frames)
+    expect(switches).toHaveLength(1)
+    expect(switches[0]).toBeGreaterThan(100)
+  })
+
+  it('switches when the music comes back after a quiet passage', () => {
+    const autopilot = createAutopilot()
+    autopilot.config.quietSeconds = 2
+    const loud = Array.from({ length: 100 }, () => onset(1))
+    const quiet = Array.from({ length: 40 }, () => onset(0))
+    const switches = run(autopilot, [...loud, ...quiet, ...loud])
+    expect(switches).toHaveLength(1)
+    expect(switches[0]).toBeGreaterThan(140)
+  })
+
+  it('waits out a breakdown that is quiet but not silent', () => {
+    const autopilot = createAutopilot()
+    autopilot.config.quietSeconds = 4
+    const loud = Array.from({ length: 100 }, () => onset(1))
+    const breakdown = Array.from({ length: 300 }, () => onset(0.2))
+    const switches = run(autopilot, [...loud, ...breakdown, ...loud])
+    expect(switches).toHaveLength(1)
+    expect(switches[0]).toBeGreaterThan(400)
+  })
+
+  it('takes a lasting lower level as the new norm', () => {
+    const autopilot = createAutopilot()
+    autopilot.config.quietSeconds = 4
+    const loud = Array.from({ length: 100 }, () => onset(1))
+    const lower = Array.from({ length: 1200 }, () => onset(0.2))
+    const drop = Array.from({ length: 60 }, () => onset(0.02))
+    // once the lower level has settled, a quiet passage below it is noticed again
+    const switches = run(autopilot, [...loud, ...lower, ...drop, ...lower.slice(0, 100)])
+    expect(switches).toHaveLength(2)
+    expect(switches[0]).toBeLessThan(1300)
+    expect(switches[1]).toBeGreaterThan(1360)
+  })
+
+  it('never switches while pinned or disabled', () => {
+    const autopilot = createAutopilot(() => 0)
+    autopilot.config.randomSeconds = 1
+    autopilot.pinned = true
+    expect(run(autopilot, [onset(1)])).toEqual([])
+    autopilot.pinned = false
+    autopilot.enabled = false
+    expect(run(autopilot, [onset(1)])).toEqual([])
+    autopilot.enabled = true
+    expect(run(autopilot, [onset(1)])).toEqual([1])
+  })
+})
+
+describe('Autopilot scene choice', () => {
+  const scenes = ['a', 'b', 'c', 'd'].map(scene)
+
+  it('never picks the current or an excluded scene', () => {
+    const autopilot = createAutopilot(() => 0)
+    autopilot.excluded.add('b')
+    expect(autopilot.pick(scenes, 0)).toBe(2)
+  })
+
+  it('picks by weight', () => {
+    const autopilot = createAutopilot(() => 0.5)
+    autopilot.weights = { b: 1, c: 0, d: 3 }
+    // b covers the first quarter of the total weight, d the rest
+    expect(autopilot.pick(scenes, 0)).toBe(3)
+  })
+
+  it('has nothing to pick when every other scene is out of rotation', () => {
+    const autopilot = createAutopilot()
+    autopilot.excluded = new Set(['b', 'c', 'd'])
+    expect(autopilot.pick(scenes, 0)).toBeUndefined()
+  })
+})
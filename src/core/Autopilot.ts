@@ -0,0 +1,167 @@
+import type { OnsetResult } from '../audio/OnsetResult'
+import type { ConfigLimit } from './ConfigLimits'
+import type { SceneInfo } from './Scene'
+import { validateLimits } from './ConfigLimits'
+
+// =============================================================================
+// Autopilot Constants
+// =============================================================================
+
+const AUTOPILOT = {
+  /** Beats per bar */
+  BEATS_PER_BAR: 4,
+  /** Seconds the short-term energy average follows the music over */
+  FAST_SMOOTHING: 0.5,
+  /** Seconds the long-term energy average follows the music over */
+  SLOW_SMOOTHING: 10,
+  /** Seconds the long-term average follows over while quiet, so a lasting lower level becomes the norm */
+  QUIET_SMOOTHING: 60,
+  /** Short-term energy below this fraction of the long-term average counts as quiet */
+  QUIET_RATIO: 0.4,
+} as const
+
+/**
+ * When the autopilot moves on to another scene. Every rule can be turned off
+ * with 0; whichever enabled rule fires first switches, once the scene has
+ * been shown for the minimum dwell time.
+ */
+export interface AutopilotConfig {
+  /** Switch on the downbeat after this many bars */
+  bars: number
+  /** Switch when short-term energy jumps to this multiple of the long-term average */
+  energyJump: number
+  /** Switch when the music comes back after at least this many seconds of quiet */
+  quietSeconds: number
+  /** Switch at random, on average once per this many seconds */
+  randomSeconds: number
+  /** Seconds a scene is shown at least before the autopilot may move on */
+  minDwell: number
+}
+
+export const DEFAULT_AUTOPILOT_CONFIG: Readonly<AutopilotConfig> = {
+  bars: 16,
+  energyJump: 2,
+  quietSeconds: 4,
+  randomSeconds: 0,
+  minDwell: 8,
+}
+
+export const AUTOPILOT_CONFIG_LIMITS: Readonly<Record<keyof AutopilotConfig, ConfigLimit>> = {
+  bars: { label: 'Every N bars', min: 0, max: 128, step: 1 },
+  energyJump: { label: 'Energy jump (x average)', min: 0, max: 10, step: 0.1 },
+  quietSeconds: { label: 'After quiet (s)', min: 0, max: 60, step: 0.5 },
+  randomSeconds: { label: 'Random, on average (s)', min: 0, max: 600, step: 1 },
+  minDwell: { label: 'Minimum dwell (s)', min: 0, max: 300, step: 1 },
+}
+
+/** Weight limits for how often a scene is picked; 0 never picks it */
+export const SCENE_WEIGHT_LIMIT: Readonly<ConfigLimit> = { label: 'Weight', min: 0, max: 10, step: 0.5 }
+
+/**
+ * Check a partial autopilot config against AUTOPILOT_CONFIG_LIMITS.
+ * Returns one message per invalid field; an empty list means it is valid.
+ */
+export function validateAutopilotConfig(patch: Partial<Record<keyof AutopilotConfig, unknown>>): string[] {
+  return validateLimits(AUTOPILOT_CONFIG_LIMITS, patch)
+}
+
+/** Move `average` toward `value`, covering most of the gap in `seconds` */
+function smooth(average: number, value: number, deltaTime: number, seconds: number): number {
+  return average + (value - average) * Math.min(deltaTime / seconds, 1)
+}
+
+/**
+ * Decides when to switch scenes and which scene comes next, VJ style. The
+ * SceneManager asks it every frame while it is enabled, unless the scene on
+ * screen is pinned.
+ */
+export class Autopilot {
+  enabled = false
+  /** Keep the scene on screen, whatever the rules say */
+  pinned = false
+  config: AutopilotConfig = { ...DEFAULT_AUTOPILOT_CONFIG }
+  /** Relative chance of each scene, by id, being picked next; missing scenes weigh 1 */
+  weights: Record<string, number> = {}
+  /** Ids of scenes left out of the rotation */
+  excluded = new Set<string>()
+
+  private random: () => number
+  /** Seconds since the last switch */
+  private dwell = 0
+  /** Beats since the last switch */
+  private beats = 0
+  /** Short- and long-term averages of the flux, unset until the first frame */
+  private fastEnergy = Number.NaN
+  private slowEnergy = Number.NaN
+  /** Whether the energy was already above the jump threshold last frame */
+  private surging = false
+  /** Seconds the current quiet passage has lasted */
+  private quiet = 0
+
+  constructor(random: () => number = Math.random) {
+    this.random = random
+  }
+
+  /** Start counting afresh after any switch, whoever made it */
+  reset(): void {
+    this.dwell = 0
+    this.beats = 0
+  }
+
+  /** Follow the music for a frame; true when a rule says it is time to switch */
+  update(deltaTime: number, audio: OnsetResult): boolean {
+    const { config } = this
+    this.dwell += deltaTime
+    if (audio.tempo.beat)
+      this.beats++
+
+    // start from the first frame's level rather than read the start as a jump
+    if (Number.isNaN(this.slowEnergy))
+      this.fastEnergy = this.slowEnergy = audio.flux
+    this.fastEnergy = smooth(this.fastEnergy, audio.flux, deltaTime, AUTOPILOT.FAST_SMOOTHING)
+    // quiet is measured against the level from before it started, so the
+    // long-term average only sinks slowly while quiet: a breakdown is waited
+    // out, while a track that stays quieter is taken as its new level
+    const isQuiet = this.fastEnergy < this.slowEnergy * AUTOPILOT.QUIET_RATIO
+    const smoothing = isQuiet ? AUTOPILOT.QUIET_SMOOTHING : AUTOPILOT.SLOW_SMOOTHING
+    this.slowEnergy = smooth(this.slowEnergy, audio.flux, deltaTime, smoothing)
+    // only the frame the energy crosses the threshold counts as a jump
+    const surging = config.energyJump > 0 && this.slowEnergy > 0 && this.fastEnergy > this.slowEnergy * config.energyJump
+    const jumped = surging && !this.surging
+    this.surging = surging
+    const quietEnded = !isQuiet && config.quietSeconds > 0 && this.quiet >= config.quietSeconds
+    this.quiet = isQuiet ? this.quiet + deltaTime : 0
+
+    if (!this.enabled || this.pinned || this.dwell < config.minDwell)
+      return false
+    // bars count from the last switch, taken as a downbeat
+    const barsDone = config.bars > 0 && audio.tempo.beat
+      && this.beats >= config.bars * AUTOPILOT.BEATS_PER_BAR && this.beats % AUTOPILOT.BEATS_PER_BAR === 0
+    const chance = config.randomSeconds > 0 && this.random() < deltaTime / config.randomSeconds
+    return barsDone || jumped || quietEnded || chance
+  }
+
+  /** Pick the next scene by weight, never the current one or an excluded one */
+  pick(scenes: readonly SceneInfo[], current: number): number | undefined {
+    const weights = scenes.map((info, index) => {
+      if (index === current || this.excluded.has(info.id))
+        return 0
+      return this.weights[info.id] ?? 1
+    })
+    const total = weights.reduce((sum, weight) => sum + weight, 0)
+    if (total <= 0)
+      return undefined
+    let target = this.random() * total
+    let picked: number | undefined
+    for (let index = 0; index < weights.length; index++) {
+      if (weights[index] <= 0)
+        continue
+      // rounding can leave a sliver of target over; the last candidate takes it
+      picked = index
+      target -= weights[index]
+      if (target < 0)
+        break
+    }
+    return picked
+  }
+}
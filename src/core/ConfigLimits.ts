@@ -0,0 +1,48 @@
+/** The label and slider range of one numeric setting */
+export interface ConfigLimit {
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+/**
+ * Check a partial config against a table of limits, field by field in the
+ * table's order. `check` adds rules of its own for values within range.
+ * Returns one message per invalid field; an empty list means it is valid.
+ */
+export function validateLimits<K extends string>(
+  limits: Readonly<Record<K, ConfigLimit>>,
+  patch: Partial<Record<K, unknown>>,
+  check?: (key: K, value: number) => string | undefined,
+): string[] {
+  const errors: string[] = []
+  for (const key of Object.keys(limits) as K[]) {
+    if (!(key in patch))
+      continue
+    const value = patch[key]
+    const { label, min, max } = limits[key]
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${label} must be a number`)
+      continue
+    }
+    const error = value < min || value > max ? `${label} must be between ${min} and ${max}` : check?.(key, value)
+    if (error)
+      errors.push(error)
+  }
+  return errors
+}
+
+/** The fields of a saved config that still pass `validate`, dropping the rest */
+export function validFields<K extends string>(
+  limits: Readonly<Record<K, ConfigLimit>>,
+  saved: Readonly<Record<string, unknown>>,
+  validate: (patch: Partial<Record<K, unknown>>) => string[],
+): Partial<Record<K, number>> {
+  const fields: Partial<Record<K, number>> = {}
+  for (const key of Object.keys(limits) as K[]) {
+    if (key in saved && !validate({ [key]: saved[key] } as Partial<Record<K, unknown>>).length)
+      fields[key] = saved[key] as number
+  }
+  return fields
+}
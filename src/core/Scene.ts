@@ -1,29 +1,81 @@
-import type { WebGLRenderer } from 'three'
+import type { Texture, WebGLRenderer } from 'three'
 import type { OnsetResult } from '../audio/OnsetResult'
+import type { TrackMetadata } from '../audio/TrackMetadata'
+import type { SceneParamValue, SceneSchema } from './SceneParams'
+
+/**
+ * The track now playing, shared with every scene.
+ */
+export interface SceneTrack {
+  metadata: TrackMetadata
+  /** Embedded cover art for colour theming, null when the file has none */
+  cover: Texture | null
+}
+
+/**
+ * What a scene is, for listing it before it has been built.
+ */
+export interface SceneInfo {
+  /** Stable identifier, e.g. for saved settings */
+  id: string
+  /** Display name */
+  name: string
+  description: string
+  tags: readonly string[]
+  author: string
+}
 
 /**
  * Interface that all scenes must implement.
  * Provides a consistent contract for the SceneManager.
  */
 export interface IScene {
+  /** The scene's metadata, the same as it was registered with */
+  readonly info: SceneInfo
+
+  /** Tunable parameters, described for the scene panel */
+  readonly schema?: SceneSchema
+
+  /** Current values of the schema's parameters, read by the scene as it runs */
+  readonly params?: Record<string, SceneParamValue>
+
+  /** Called after parameters change, to push values the scene does not read every frame */
+  applyParams?: () => void
+
   /** Update scene state based on time and audio analysis */
   update: (deltaTime: number, audio: OnsetResult) => void
 
   /** Render the scene to the WebGL context */
   render: () => void
 
-  /** Handle window resize events */
-  resize: () => void
+  /** Fit the view to an output of `width` x `height` drawing-buffer pixels */
+  resize: (width: number, height: number) => void
 
   /** Clean up resources when scene is disposed */
   dispose: () => void
+
+  /** Called when the scene starts being shown */
+  activate?: () => void
+
+  /** Called once the scene is no longer shown; it may be disposed later */
+  deactivate?: () => void
+
+  /** Receive a new track, or undefined once there is none; the cover texture is owned by the SceneManager */
+  setTrack?: (track: SceneTrack | undefined) => void
+
+  /** Receive the playing video's frames, or null once there is none; owned by the SceneManager */
+  setVideo?: (video: Texture | null) => void
 }
 
+/** Builds a scene; registered with the SceneManager so scenes are only built when shown */
+export type SceneFactory = (renderer: WebGLRenderer) => IScene
+
 /**
  * Base class with common scene functionality.
  * Scenes can extend this or implement IScene directly.
  */
 export abstract class BaseScene implements IScene {
+  abstract readonly info: SceneInfo
   protected renderer: WebGLRenderer
 
   constructor(renderer: WebGLRenderer) {
@@ -32,7 +84,15 @@ export abstract class BaseScene implements IScene {
 
   abstract update(deltaTime: number, audio: OnsetResult): void
   abstract render(): void
-  abstract resize(): void
+  abstract resize(width: number, height: number): void
+
+  activate(): void {
+    // Override in subclasses to resume work when shown
+  }
+
+  deactivate(): void {
+    // Override in subclasses to pause work while hidden
+  }
 
   dispose(): void {
     // Override in subclasses if cleanup is needed
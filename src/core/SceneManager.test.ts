@@ -0,0 +1,269 @@
+import type { WebGLRenderer } from 'three'
+import type { OnsetResult } from '../audio/OnsetResult'
+import type { IScene, SceneTrack } from './Scene'
+import type { SceneSchema } from './SceneParams'
+import { describe, expect, it } from 'bun:test'
+import { Autopilot } from './Autopilot'
+import { SceneManager } from './SceneManager'
+import { defaultParams, setSceneParam } from './SceneParams'
+
+const INFO = { id: 'fake', name: 'Fake', description: '', tags: [], author: '' }
+
+const SCHEMA = {
+  speed: { type: 'number', label: 'Speed', min: 0, max: 10, step: 1, default: 1 },
+} as const satisfies SceneSchema
+
+/** Counts the calls the manager makes */
+class FakeScene implements IScene {
+  readonly info = INFO
+  readonly schema = SCHEMA
+  readonly params = defaultParams(SCHEMA)
+  updates = 0
+  size?: [number, number]
+  active = false
+  disposed = false
+  track?: SceneTrack
+
+  update(): void {
+    this.updates++
+  }
+
+  render(): void {}
+
+  resize(width: number, height: number): void {
+    this.size = [width, height]
+  }
+
+  activate(): void {
+    this.active = true
+  }
+
+  deactivate(): void {
+    this.active = false
+  }
+
+  dispose(): void {
+    this.disposed = true
+  }
+
+  setTrack(track: SceneTrack | undefined): void {
+    this.track = track
+  }
+}
+
+function onset(beat = false): OnsetResult {
+  return { event: false, tempo: { beat, bpm: 120 } } as unknown as OnsetResult
+}
+
+/** Three registered scenes; `built` lists every instance each factory made */
+function createManager(disposeAfter?: number, autopilot?: Autopilot): { manager: SceneManager, built: FakeScene[][] } {
+  const renderer = {
+    xr: { isPresenting: false },
+    domElement: { style: {} },
+    setPixelRatio: () => {},
+    setSize: () => {},
+  }
+  const manager = new SceneManager(renderer as unknown as WebGLRenderer, disposeAfter, autopilot)
+  const built: FakeScene[][] = [[], [], []]
+  for (const instances of built) {
+    manager.register(INFO, () => {
+      const scene = new FakeScene()
+      instances.push(scene)
+      return scene
+    })
+  }
+  return { manager, built }
+}
+
+describe('SceneManager lifecycle', () => {
+  it('builds scenes only when first shown', () => {
+    const { manager, built } = createManager()
+    expect(built.map(instances => instances.length)).toEqual([0, 0, 0])
+    manager.update(0.1, onset())
+    expect(built.map(instances => instances.length)).toEqual([1, 0, 0])
+    manager.setScene(2)
+    expect(built.map(instances => instances.length)).toEqual([1, 0, 1])
+    expect(manager.loaded).toBe(2)
+  })
+
+  it('activates the shown scene and deactivates the one switched away from', () => {
+    const { manager, built } = createManager()
+    manager.update(0.1, onset())
+    expect(built[0][0].active).toBe(true)
+    manager.setScene(1)
+    expect(built[0][0].active).toBe(false)
+    expect(built[1][0].active).toBe(true)
+  })
+
+  it('deactivates the outgoing scene once its transition ends', () => {
+    const { manager, built } = createManager()
+    manager.setTransition('crossfade', 1)
+    manager.update(0.1, onset())
+    manager.setScene(1)
+    manager.update(0.5, onset())
+    expect(built[0][0].active).toBe(true)
+    manager.update(0.6, onset())
+    expect(built[0][0].active).toBe(false)
+  })
+
+  it('disposes inactive scenes after the timeout and rebuilds them when shown', () => {
+    const { manager, built } = createManager(10)
+    manager.update(0.1, onset())
+    manager.setScene(1)
+    manager.update(6, onset())
+    expect(built[0][0].disposed).toBe(false)
+    manager.update(6, onset())
+    expect(built[0][0].disposed).toBe(true)
+    expect(built[1][0].disposed).toBe(false)
+    expect(manager.loaded).toBe(1)
+    manager.setScene(0)
+    expect(built[0]).toHaveLength(2)
+  })
+
+  it('keeps parameters and refits the size across disposal', () => {
+    const { manager, built } = createManager(10)
+    manager.setViewport(800, 600, 1)
+    manager.update(0.1, onset())
+    expect(setSceneParam(built[0][0], 'speed', 7)).toBeUndefined()
+    manager.setScene(1)
+    manager.update(12, onset())
+    manager.setScene(0)
+    expect(built[0][1].params.speed).toBe(7)
+    expect(built[0][1].size).toEqual([800, 600])
+  })
+})
+
+describe('SceneManager scene list', () => {
+  it('lists every registered scene without building them', () => {
+    const { manager, built } = createManager()
+    expect(manager.scenes.map(info => info.name)).toEqual(['Fake', 'Fake', 'Fake'])
+    expect(built.flat()).toHaveLength(0)
+  })
+
+  it('tells every listener about a switch', () => {
+    const { manager } = createManager()
+    const heard: number[][] = []
+    manager.onSceneChange((index, total) => heard.push([index, total]))
+    manager.onSceneChange(index => heard.push([index]))
+    manager.setScene(2)
+    expect(heard).toEqual([[2, 3], [2]])
+  })
+})
+
+describe('SceneManager transitions', () => {
+  it('switches at once with no transition set', () => {
+    const { manager, built } = createManager()
+    manager.update(0.1, onset())
+    manager.setScene(1)
+    manager.update(0.1, onset())
+    expect(manager.transitioning).toBe(false)
+    expect(built[0][0].updates).toBe(1)
+    expect(built[1][0].updates).toBe(1)
+  })
+
+  it('keeps updating the outgoing scene until the transition ends', () => {
+    const { manager, built } = createManager()
+    manager.setTransition('crossfade', 1)
+    manager.update(0.1, onset())
+    manager.setScene(1)
+    manager.update(0.6, onset())
+    expect(manager.transitioning).toBe(true)
+    manager.update(0.6, onset())
+    expect(manager.transitioning).toBe(false)
+    manager.update(0.6, onset())
+    expect(built[0][0].updates).toBe(3)
+    expect(built[1][0].updates).toBe(3)
+  })
+
+  it('continues from the incoming scene when switching mid-transition', () => {
+    const { manager, built } = createManager()
+    manager.setTransition('wipe', 1)
+    manager.update(0.1, onset())
+    manager.setScene(1)
+    manager.update(0.5, onset())
+    manager.setScene(2)
+    manager.update(0.5, onset())
+    expect(built[0][0].updates).toBe(2)
+    expect(built[0][0].active).toBe(false)
+    expect(built[1][0].updates).toBe(2)
+    expect(built[2][0].updates).toBe(1)
+  })
+
+  it('cuts on the next beat', () => {
+    const { manager } = createManager()
+    manager.setTransition('beat-cut', 4)
+    manager.update(0.1, onset())
+    manager.setScene(1)
+    manager.update(0.1, onset())
+    expect(manager.transitioning).toBe(true)
+    manager.update(0.1, onset(true))
+    expect(manager.transitioning).toBe(false)
+  })
+})
+
+describe('SceneManager sizing', () => {
+  it('fits scenes to the viewport in drawing-buffer pixels', () => {
+    const { manager, built } = createManager()
+    manager.setViewport(800, 600, 2)
+    manager.update(0.1, onset())
+    expect(built[0][0].size).toEqual([1600, 1200])
+  })
+
+  it('resizes hidden scenes only once they are shown', () => {
+    const { manager, built } = createManager()
+    manager.setViewport(800, 600, 1)
+    manager.update(0.1, onset())
+    manager.setScene(1)
+    manager.setViewport(1024, 768, 1)
+    expect(built[0][0].size).toEqual([800, 600])
+    expect(built[1][0].size).toEqual([1024, 768])
+    manager.setScene(0)
+    expect(built[0][0].size).toEqual([1024, 768])
+  })
+
+  it('renders at a fixed output size until it is cleared', () => {
+    const { manager, built } = createManager()
+    manager.setViewport(800, 600, 1)
+    manager.update(0.1, onset())
+    manager.setOutputSize({ width: 1920, height: 1080 })
+    expect(manager.size).toEqual({ width: 1920, height: 1080 })
+    expect(built[0][0].size).toEqual([1920, 1080])
+    manager.setOutputSize(undefined)
+    expect(built[0][0].size).toEqual([800, 600])
+  })
+})
+
+describe('SceneManager autopilot', () => {
+  it('switches to the scene the autopilot picks, then waits out the dwell', () => {
+    const autopilot = new Autopilot(() => 0)
+    autopilot.enabled = true
+    autopilot.config = { bars: 0, energyJump: 0, quietSeconds: 0, randomSeconds: 1, minDwell: 1 }
+    const { manager } = createManager(undefined, autopilot)
+    manager.update(0.5, onset())
+    expect(manager.index).toBe(0)
+    manager.update(0.6, onset())
+    expect(manager.index).toBe(1)
+    manager.update(0.6, onset())
+    expect(manager.index).toBe(1)
+  })
+})
+
+describe('SceneManager track', () => {
+  it('shares the track with built scenes and those built later', async () => {
+    const { manager, built } = createManager()
+    manager.update(0.1, onset())
+    await manager.setTrack({ title: 'Song' })
+    expect(built[0][0].track?.metadata.title).toBe('Song')
+    manager.setScene(1)
+    expect(built[1][0].track?.metadata.title).toBe('Song')
+  })
+
+  it('takes the track away from every scene when the input has none', async () => {
+    const { manager, built } = createManager()
+    manager.update(0.1, onset())
+    await manager.setTrack({ title: 'Song' })
+    await manager.setTrack(undefined)
+    expect(manager.track).toBeUndefined()
+    expect(built[0][0].track).toBeUndefined()
+  })
+})
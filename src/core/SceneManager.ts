@@ -1,39 +1,139 @@
 import type { WebGLRenderer } from 'three'
 import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from './Scene'
+import type { CoverArt, TrackMetadata } from '../audio/TrackMetadata'
+import type { IScene, SceneFactory, SceneInfo, SceneTrack } from './Scene'
+import type { SceneParamValue } from './SceneParams'
+import type { TransitionEffect } from './SceneTransition'
+import { SRGBColorSpace, Texture, VideoTexture } from 'three'
+import { Autopilot } from './Autopilot'
+import { SceneTransition } from './SceneTransition'
+
+/** Decode embedded cover art into a texture, or null if there is none or it is unreadable */
+async function loadCover(cover: CoverArt | undefined): Promise<Texture | null> {
+  if (!cover)
+    return null
+  try {
+    const blob = new Blob([cover.data], { type: cover.mime })
+    // flipped to match the orientation TextureLoader gives
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'flipY' })
+    const texture = new Texture(bitmap)
+    texture.colorSpace = SRGBColorSpace
+    texture.needsUpdate = true
+    return texture
+  }
+  catch {
+    return null
+  }
+}
+
+/** A size in pixels */
+export interface OutputSize {
+  width: number
+  height: number
+}
+
+// =============================================================================
+// Scene Memory Constants
+// =============================================================================
+
+const SCENE_MEMORY = {
+  /** Seconds an inactive scene is kept before it is disposed */
+  DISPOSE_AFTER: 60,
+} as const
+
+/** A registered scene, built on first activation and disposed when idle */
+interface SceneEntry {
+  info: SceneInfo
+  create: SceneFactory
+  scene?: IScene
+  active: boolean
+  /** Seconds since the scene was last shown */
+  idle: number
+  /** The size the scene was last fitted to, so hidden scenes are only resized once shown */
+  width: number
+  height: number
+  /** Parameter values kept from a disposed scene, restored when it is built again */
+  params?: Record<string, SceneParamValue>
+}
 
 /**
  * Manages scene lifecycle, switching, and shared resources.
+ *
+ * Scenes are registered as factories and only built when first shown. A scene
+ * is activated when it starts being shown and deactivated once it is no
+ * longer on screen; after `disposeAfter` seconds inactive it is disposed,
+ * to be built again if it is shown later, which keeps GPU memory bounded.
+ *
+ * The manager alone sizes the renderer: it follows the viewport, or renders
+ * at a fixed output size scaled to fit the window, and fits each scene to
+ * that size as it is shown.
  */
 export class SceneManager {
+  /** Seconds an inactive scene is kept; Infinity keeps every scene once built */
+  disposeAfter: number
+  /** Switches scenes with the music while enabled */
+  readonly autopilot: Autopilot
+
   private renderer: WebGLRenderer
-  private scenes: IScene[] = []
+  private entries: SceneEntry[] = []
   private currentIndex = 0
-  private onSceneChange?: (index: number, total: number) => void
+  /** Window size in CSS pixels and the device pixel ratio */
+  private viewport = { width: 1, height: 1, pixelRatio: 1 }
+  /** Fixed drawing-buffer size, overriding the viewport's */
+  private outputSize?: OutputSize
+  private sceneChangeListeners: ((index: number, total: number) => void)[] = []
+  private currentTrack?: SceneTrack
+  private videoTexture: VideoTexture | null = null
+  private transitionEffect: TransitionEffect = 'crossfade'
+  /** Seconds a transition takes; 0 switches in a single frame */
+  private transitionDuration = 0
+  private transition?: SceneTransition
+  /** The scene being transitioned away from, still updated until it is gone */
+  private outgoing?: SceneEntry
+  private transitionElapsed = 0
+  // bumped per track so a slow cover decode never overrides a later track
+  private trackRequest = 0
 
-  constructor(renderer: WebGLRenderer) {
+  constructor(renderer: WebGLRenderer, disposeAfter: number = SCENE_MEMORY.DISPOSE_AFTER, autopilot = new Autopilot()) {
     this.renderer = renderer
+    this.disposeAfter = disposeAfter
+    this.autopilot = autopilot
+  }
+
+  /**
+   * Register a scene by its metadata and factory. First registered scene becomes active.
+   */
+  register(info: SceneInfo, create: SceneFactory): void {
+    this.entries.push({ info, create, active: false, idle: 0, width: 0, height: 0 })
   }
 
   /**
-   * Register a scene. First registered scene becomes active.
+   * Get the metadata of every registered scene, in order, built or not.
    */
-  register(scene: IScene): void {
-    this.scenes.push(scene)
+  get scenes(): SceneInfo[] {
+    return this.entries.map(entry => entry.info)
   }
 
   /**
-   * Get the currently active scene.
+   * Get the currently active scene, building it if needed.
    */
   get current(): IScene | undefined {
-    return this.scenes[this.currentIndex]
+    const entry = this.entries[this.currentIndex]
+    return entry && this.activate(entry)
   }
 
   /**
    * Get total number of registered scenes.
    */
   get count(): number {
-    return this.scenes.length
+    return this.entries.length
+  }
+
+  /**
+   * Get how many scenes are currently built.
+   */
+  get loaded(): number {
+    return this.entries.filter(entry => entry.scene).length
   }
 
   /**
@@ -44,31 +144,59 @@ export class SceneManager {
   }
 
   /**
-   * Set callback for scene change events.
+   * Add a listener for scene change events.
+   */
+  onSceneChange(listener: (index: number, total: number) => void): void {
+    this.sceneChangeListeners.push(listener)
+  }
+
+  /**
+   * Set how scene switches are shown: the effect, and its length in seconds.
+   * A beat cut waits up to the duration for a beat.
+   */
+  setTransition(effect: TransitionEffect, duration: number): void {
+    this.transitionEffect = effect
+    this.transitionDuration = Math.max(duration, 0)
+  }
+
+  /**
+   * Whether a transition between two scenes is under way.
    */
-  setOnSceneChange(callback: (index: number, total: number) => void): void {
-    this.onSceneChange = callback
+  get transitioning(): boolean {
+    return this.outgoing !== undefined
   }
 
   /**
-   * Switch to scene by index.
+   * Switch to scene by index, through the current transition if one is set.
    */
   setScene(index: number): void {
-    if (index < 0 || index >= this.scenes.length)
+    if (index < 0 || index >= this.entries.length)
       return
     if (index === this.currentIndex)
       return
 
+    const previous = this.entries[this.currentIndex]
     this.currentIndex = index
-    this.current?.resize()
-    this.onSceneChange?.(index, this.scenes.length)
+    this.activate(this.entries[index])
+    // a switch mid-transition continues from the scene that was coming in
+    if (this.outgoing && this.outgoing !== this.entries[index])
+      this.deactivate(this.outgoing)
+    this.outgoing = undefined
+    if (this.transitionDuration > 0 && previous.scene)
+      this.outgoing = previous
+    else
+      this.deactivate(previous)
+    this.transitionElapsed = 0
+    this.autopilot.reset()
+    for (const listener of this.sceneChangeListeners)
+      listener(index, this.entries.length)
   }
 
   /**
    * Switch to next scene (wraps around).
    */
   next(): void {
-    const nextIndex = (this.currentIndex + 1) % this.scenes.length
+    const nextIndex = (this.currentIndex + 1) % this.entries.length
     this.setScene(nextIndex)
   }
 
@@ -76,29 +204,123 @@ export class SceneManager {
    * Switch to previous scene (wraps around).
    */
   prev(): void {
-    const prevIndex = (this.currentIndex - 1 + this.scenes.length) % this.scenes.length
+    const prevIndex = (this.currentIndex - 1 + this.entries.length) % this.entries.length
     this.setScene(prevIndex)
   }
 
   /**
-   * Update the current scene.
+   * Update the current scene, and the outgoing one during a transition.
+   * The autopilot may switch scenes first.
    */
   update(deltaTime: number, audio: OnsetResult): void {
+    // let a transition finish before the next switch
+    if (this.autopilot.update(deltaTime, audio) && !this.outgoing) {
+      const next = this.autopilot.pick(this.scenes, this.currentIndex)
+      if (next !== undefined)
+        this.setScene(next)
+    }
     this.current?.update(deltaTime, audio)
+    this.disposeIdle(deltaTime)
+    const { outgoing } = this
+    if (!outgoing)
+      return
+    outgoing.scene?.update(deltaTime, audio)
+    this.transitionElapsed += deltaTime
+    // before a tempo is known, any onset counts as the beat
+    const beat = audio.tempo.beat || (!audio.tempo.bpm && audio.event)
+    if (this.transitionElapsed >= this.transitionDuration || (this.transitionEffect === 'beat-cut' && beat)) {
+      this.outgoing = undefined
+      this.deactivate(outgoing)
+    }
   }
 
   /**
-   * Render the current scene.
+   * Render the current scene, blended with the outgoing one during a transition.
    */
   render(): void {
-    this.current?.render()
+    const { current } = this
+    const outgoing = this.outgoing?.scene
+    // render targets cannot stand in for the headset's views
+    if (!current || !outgoing || this.renderer.xr.isPresenting) {
+      current?.render()
+      return
+    }
+    this.transition ??= new SceneTransition(this.renderer)
+    const progress = this.transitionElapsed / this.transitionDuration
+    this.transition.render(outgoing, current, progress, this.transitionEffect)
+  }
+
+  /**
+   * The drawing-buffer size scenes render at.
+   */
+  get size(): OutputSize {
+    if (this.outputSize)
+      return { ...this.outputSize }
+    const { width, height, pixelRatio } = this.viewport
+    return { width: Math.floor(width * pixelRatio), height: Math.floor(height * pixelRatio) }
   }
 
   /**
-   * Handle resize for the current scene.
+   * Follow a new window size, in CSS pixels, and pixel ratio. Scenes on
+   * screen are resized at once; hidden scenes when they are next shown.
    */
-  resize(): void {
-    this.current?.resize()
+  setViewport(width: number, height: number, pixelRatio: number): void {
+    this.viewport = { width, height, pixelRatio }
+    this.applySize()
+  }
+
+  /**
+   * Render at a fixed size, e.g. 1920x1080 for a projector or capture,
+   * whatever the window size; undefined follows the viewport again.
+   */
+  setOutputSize(size: OutputSize | undefined): void {
+    this.outputSize = size && { ...size }
+    this.applySize()
+  }
+
+  /**
+   * Get the track now playing, if any.
+   */
+  get track(): SceneTrack | undefined {
+    return this.currentTrack
+  }
+
+  /**
+   * Share a new track with every scene, once its cover art is decoded, or
+   * take it away when the input has no track. The previous cover texture is
+   * disposed.
+   */
+  async setTrack(metadata: TrackMetadata | undefined): Promise<void> {
+    const request = ++this.trackRequest
+    const cover = await loadCover(metadata?.cover)
+    if (request !== this.trackRequest) {
+      cover?.dispose()
+      return
+    }
+    this.currentTrack?.cover?.dispose()
+    const track = metadata && { metadata, cover }
+    this.currentTrack = track
+    for (const { scene } of this.entries)
+      scene?.setTrack?.(track)
+  }
+
+  /**
+   * Share a playing video's frames with every scene as a texture, or take
+   * it away when the input has no video. The previous texture is disposed.
+   */
+  setVideo(video: HTMLVideoElement | undefined): void {
+    if (this.videoTexture?.image === video)
+      return
+    const previous = this.videoTexture
+    let texture: VideoTexture | null = null
+    if (video) {
+      texture = new VideoTexture(video)
+      texture.colorSpace = SRGBColorSpace
+    }
+    this.videoTexture = texture
+    for (const { scene } of this.entries)
+      scene?.setVideo?.(texture)
+    previous?.dispose()
   }
 
   /**
@@ -107,4 +329,89 @@ export class SceneManager {
   getRenderer(): WebGLRenderer {
     return this.renderer
   }
+
+  /** Build a scene if needed, handing it the shared track and video */
+  private load(entry: SceneEntry): IScene {
+    if (!entry.scene) {
+      const scene = entry.create(this.renderer)
+      if (this.currentTrack)
+        scene.setTrack?.(this.currentTrack)
+      if (this.videoTexture)
+        scene.setVideo?.(this.videoTexture)
+      if (entry.params && scene.params) {
+        Object.assign(scene.params, entry.params)
+        scene.applyParams?.()
+      }
+      entry.scene = scene
+    }
+    return entry.scene
+  }
+
+  private activate(entry: SceneEntry): IScene {
+    const scene = this.load(entry)
+    if (!entry.active) {
+      entry.active = true
+      entry.idle = 0
+      // the output may have changed size while the scene was hidden
+      this.fit(entry)
+      scene.activate?.()
+    }
+    return scene
+  }
+
+  /** Resize a built scene to the output size, if it is not already */
+  private fit(entry: SceneEntry): void {
+    const { width, height } = this.size
+    if (!entry.scene || (entry.width === width && entry.height === height))
+      return
+    entry.width = width
+    entry.height = height
+    entry.scene.resize(width, height)
+  }
+
+  /** Size the renderer's canvas and fit the scenes on screen to it */
+  private applySize(): void {
+    const { renderer, outputSize, viewport } = this
+    const canvas = renderer.domElement
+    if (outputSize) {
+      renderer.setPixelRatio(1)
+      renderer.setSize(outputSize.width, outputSize.height, false)
+      // scale the fixed-size canvas to the window, letterboxed
+      canvas.style.width = `${viewport.width}px`
+      canvas.style.height = `${viewport.height}px`
+      canvas.style.objectFit = 'contain'
+    }
+    else {
+      renderer.setPixelRatio(viewport.pixelRatio)
+      renderer.setSize(viewport.width, viewport.height)
+      canvas.style.objectFit = ''
+    }
+    for (const entry of this.entries) {
+      if (entry.active)
+        this.fit(entry)
+    }
+  }
+
+  private deactivate(entry: SceneEntry): void {
+    if (!entry.active)
+      return
+    entry.active = false
+    entry.scene?.deactivate?.()
+  }
+
+  /** Dispose scenes that have not been shown for `disposeAfter` seconds */
+  private disposeIdle(deltaTime: number): void {
+    for (const entry of this.entries) {
+      if (entry.active || !entry.scene)
+        continue
+      entry.idle += deltaTime
+      if (entry.idle >= this.disposeAfter) {
+        entry.params = entry.scene.params && { ...entry.scene.params }
+        entry.scene.dispose()
+        entry.scene = undefined
+        // a rebuilt scene starts unsized
+        entry.width = entry.height = 0
+      }
+    }
+  }
 }
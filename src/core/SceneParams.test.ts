@@ -0,0 +1,79 @@
+import type { IScene } from './Scene'
+import type { SceneSchema } from './SceneParams'
+import { describe, expect, it } from 'bun:test'
+import { defaultParams, setSceneParam, validateParam } from './SceneParams'
+
+const SCHEMA = {
+  speed: { type: 'number', label: 'Speed', min: 0, max: 4, step: 0.5, default: 1 },
+  tint: { type: 'color', label: 'Tint', default: '#ff8800' },
+  mode: { type: 'enum', label: 'Mode', options: { calm: 'Calm', wild: 'Wild' }, default: 'calm' },
+  stars: { type: 'boolean', label: 'Stars', default: true },
+} as const satisfies SceneSchema
+
+function createScene(): IScene & { applied: number } {
+  const scene = {
+    info: { id: 'fake', name: 'Fake', description: '', tags: [], author: '' },
+    schema: SCHEMA,
+    params: defaultParams(SCHEMA),
+    applied: 0,
+    update: () => {},
+    render: () => {},
+    resize: () => {},
+    dispose: () => {},
+    applyParams: () => {
+      scene.applied++
+    },
+  }
+  return scene
+}
+
+describe('defaultParams', () => {
+  it('takes every default from the schema', () => {
+    expect(defaultParams(SCHEMA)).toEqual({ speed: 1, tint: '#ff8800', mode: 'calm', stars: true })
+  })
+})
+
+describe('validateParam', () => {
+  it('accepts values that fit each type', () => {
+    expect(validateParam(SCHEMA.speed, 4)).toBeUndefined()
+    expect(validateParam(SCHEMA.tint, '#00AAff')).toBeUndefined()
+    expect(validateParam(SCHEMA.mode, 'wild')).toBeUndefined()
+    expect(validateParam(SCHEMA.stars, false)).toBeUndefined()
+  })
+
+  it('rejects values out of range or of the wrong type', () => {
+    expect(validateParam(SCHEMA.speed, 5)).toBe('Speed must be between 0 and 4')
+    expect(validateParam(SCHEMA.speed, Number.NaN)).toBe('Speed must be a number')
+    expect(validateParam(SCHEMA.tint, 'orange')).toBe('Tint must be a #rrggbb colour')
+    expect(validateParam(SCHEMA.mode, 'sleepy')).toBe('Mode must be one of calm, wild')
+    expect(validateParam(SCHEMA.stars, 1)).toBe('Stars must be on or off')
+  })
+
+  it('rejects enum values that are only inherited keys', () => {
+    expect(validateParam(SCHEMA.mode, 'constructor')).toBe('Mode must be one of calm, wild')
+    expect(validateParam(SCHEMA.mode, 'toString')).toBe('Mode must be one of calm, wild')
+  })
+})
+
+describe('setSceneParam', () => {
+  it('sets the value and lets the scene apply it', () => {
+    const scene = createScene()
+    expect(setSceneParam(scene, 'speed', 2.5)).toBeUndefined()
+    expect(scene.params?.speed).toBe(2.5)
+    expect(scene.applied).toBe(1)
+  })
+
+  it('leaves the scene alone when the value or key is invalid', () => {
+    const scene = createScene()
+    expect(setSceneParam(scene, 'speed', -1)).toBe('Speed must be between 0 and 4')
+    expect(setSceneParam(scene, 'colour', '#000000')).toBe('Fake has no parameter colour')
+    expect(scene.params).toEqual(defaultParams(SCHEMA))
+    expect(scene.applied).toBe(0)
+  })
+
+  it('does not take inherited keys for parameters', () => {
+    const scene = createScene()
+    expect(setSceneParam(scene, 'constructor', 'calm')).toBe('Fake has no parameter constructor')
+    expect(scene.params).toEqual(defaultParams(SCHEMA))
+  })
+})
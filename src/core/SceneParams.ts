@@ -0,0 +1,95 @@
+import type { IScene } from './Scene'
+
+// =============================================================================
+// Parameter Schema
+// =============================================================================
+
+export interface NumberParam {
+  type: 'number'
+  label: string
+  min: number
+  max: number
+  step: number
+  default: number
+}
+
+/** A colour as a #rrggbb string */
+export interface ColorParam {
+  type: 'color'
+  label: string
+  default: string
+}
+
+/** One of a fixed set of values, each with a display label */
+export interface EnumParam {
+  type: 'enum'
+  label: string
+  options: Readonly<Record<string, string>>
+  default: string
+}
+
+export interface BooleanParam {
+  type: 'boolean'
+  label: string
+  default: boolean
+}
+
+export type SceneParam = NumberParam | ColorParam | EnumParam | BooleanParam
+
+/** A scene's tunable parameters by key, in the order they are shown */
+export type SceneSchema = Readonly<Record<string, SceneParam>>
+
+export type SceneParamValue = number | string | boolean
+
+/** Current values of a schema's parameters, typed from the schema */
+export type SceneParamValues<S extends SceneSchema> = {
+  -readonly [K in keyof S]: S[K] extends NumberParam ? number : S[K] extends BooleanParam ? boolean : string
+}
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+/** The default value of every parameter in a schema */
+export function defaultParams<S extends SceneSchema>(schema: S): SceneParamValues<S> {
+  const values: Record<string, SceneParamValue> = {}
+  for (const key of Object.keys(schema))
+    values[key] = schema[key].default
+  return values as SceneParamValues<S>
+}
+
+/**
+ * Check a value against its parameter's definition.
+ * Returns a message when it is invalid, undefined when it is valid.
+ */
+export function validateParam(param: SceneParam, value: unknown): string | undefined {
+  switch (param.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value))
+        return `${param.label} must be a number`
+      if (value < param.min || value > param.max)
+        return `${param.label} must be between ${param.min} and ${param.max}`
+      return undefined
+    case 'color':
+      return typeof value === 'string' && COLOR_PATTERN.test(value) ? undefined : `${param.label} must be a #rrggbb colour`
+    case 'enum':
+      return typeof value === 'string' && Object.hasOwn(param.options, value) ? undefined : `${param.label} must be one of ${Object.keys(param.options).join(', ')}`
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `${param.label} must be on or off`
+  }
+}
+
+/**
+ * Set one of a scene's parameters and let it apply the change. Nothing
+ * changes when the scene has no such parameter or the value is invalid;
+ * the error is returned instead.
+ */
+export function setSceneParam(scene: IScene, key: string, value: unknown): string | undefined {
+  const param = scene.schema && Object.hasOwn(scene.schema, key) ? scene.schema[key] : undefined
+  if (!param || !scene.params)
+    return `${scene.info.name} has no parameter ${key}`
+  const error = validateParam(param, value)
+  if (error)
+    return error
+  scene.params[key] = value as SceneParamValue
+  scene.applyParams?.()
+  return undefined
+}
@@ -0,0 +1,95 @@
+import type { IScene } from './Scene'
+import type { SceneSchema } from './SceneParams'
+import { describe, expect, it } from 'bun:test'
+import { MemoryStorage } from '../test/MemoryStorage'
+import { defaultParams } from './SceneParams'
+import { migrateParams, parsePresets, PRESETS_VERSION, ScenePresets } from './ScenePresets'
+
+const SCHEMA = {
+  speed: { type: 'number', label: 'Speed', min: 0, max: 4, step: 0.5, default: 1 },
+  tint: { type: 'color', label: 'Tint', default: '#ff8800' },
+  stars: { type: 'boolean', label: 'Stars', default: true },
+} as const satisfies SceneSchema
+
+function createScene(): IScene & { params: Record<string, unknown> } {
+  return {
+    info: { id: 'fake', name: 'Fake', description: '', tags: [], author: '' },
+    schema: SCHEMA,
+    params: defaultParams(SCHEMA),
+    update: () => {},
+    render: () => {},
+    resize: () => {},
+    dispose: () => {},
+  }
+}
+
+function createPresets(storage = new MemoryStorage()): ScenePresets {
+  return new ScenePresets(storage as unknown as Storage)
+}
+
+describe('migrateParams', () => {
+  it('clamps numbers, drops unknown and invalid values and fills in new parameters', () => {
+    const { params, notes } = migrateParams(SCHEMA, { speed: 9, tint: 'orange', glow: 3 })
+    expect(params).toEqual({ speed: 4, tint: '#ff8800', stars: true })
+    expect(notes).toEqual([
+      'Speed was out of range, set to 4',
+      'Tint must be a #rrggbb colour, using the default',
+      'Ignored unknown parameter glow',
+    ])
+  })
+})
+
+describe('parsePresets', () => {
+  it('rejects files of another version', () => {
+    expect(() => parsePresets({ version: PRESETS_VERSION + 1, scenes: {} })).toThrow('Unsupported presets version: 2')
+    expect(() => parsePresets('presets')).toThrow('Presets are not a JSON object')
+  })
+
+  it('drops malformed presets and values', () => {
+    const file = parsePresets({
+      version: PRESETS_VERSION,
+      scenes: { fake: [{ name: ' Calm ', params: { speed: 2, nested: {} } }, { name: '', params: {} }, 'loud'] },
+    })
+    expect(file.scenes).toEqual({ fake: [{ name: 'Calm', params: { speed: 2 } }] })
+  })
+})
+
+describe('ScenePresets', () => {
+  it('saves, recalls and persists presets', () => {
+    const storage = new MemoryStorage()
+    const scene = createScene()
+    scene.params.speed = 3
+    expect(createPresets(storage).save(scene, 'Fast')).toBeUndefined()
+
+    const presets = createPresets(storage)
+    expect(presets.list('fake').map(preset => preset.name)).toEqual(['Fast'])
+    scene.params.speed = 0
+    expect(presets.apply(scene, 'Fast')).toEqual([])
+    expect(scene.params.speed).toBe(3)
+  })
+
+  it('replaces a preset saved again under the same name in place', () => {
+    const presets = createPresets()
+    const scene = createScene()
+    presets.save(scene, 'A')
+    presets.save(scene, 'B')
+    scene.params.stars = false
+    presets.save(scene, 'A')
+    expect(presets.list('fake').map(preset => preset.params.stars)).toEqual([false, true])
+  })
+
+  it('round-trips presets through export and import', () => {
+    const source = createPresets()
+    source.save(createScene(), 'Default')
+    const target = createPresets()
+    expect(target.import(JSON.parse(JSON.stringify(source.export())))).toBe(1)
+    expect(target.list('fake')).toEqual(source.list('fake'))
+  })
+
+  it('leaves saved presets alone when an import is unusable', () => {
+    const presets = createPresets()
+    presets.save(createScene(), 'Default')
+    expect(() => presets.import({ version: 0 })).toThrow()
+    expect(presets.list('fake')).toHaveLength(1)
+  })
+})
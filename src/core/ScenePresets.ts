@@ -0,0 +1,215 @@
+import type { IScene } from './Scene'
+import type { SceneParamValue, SceneSchema } from './SceneParams'
+import { defaultParams, validateParam } from './SceneParams'
+import { loadStored, saveStored } from './storage'
+
+/** Bumped whenever the preset file format changes */
+export const PRESETS_VERSION = 1
+
+const STORAGE_KEY = 'beat-tube:scene-presets'
+
+/** A named set of parameter values for one scene */
+export interface ScenePreset {
+  name: string
+  params: Record<string, SceneParamValue>
+}
+
+/** Presets by scene id, as saved to storage and exported to files */
+export interface PresetFile {
+  version: typeof PRESETS_VERSION
+  scenes: Record<string, ScenePreset[]>
+}
+
+function isParamValue(value: unknown): value is SceneParamValue {
+  return typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean'
+}
+
+/** A preset read from a file, or undefined when it is malformed */
+function parsePreset(json: unknown): ScenePreset | undefined {
+  const data = json as Partial<ScenePreset> | null
+  if (!data || typeof data !== 'object' || typeof data.name !== 'string' || !data.name.trim())
+    return undefined
+  if (!data.params || typeof data.params !== 'object')
+    return undefined
+  const params: Record<string, SceneParamValue> = {}
+  for (const key of Object.keys(data.params)) {
+    const value = (data.params as Record<string, unknown>)[key]
+    if (isParamValue(value))
+      params[key] = value
+  }
+  return { name: data.name.trim(), params }
+}
+
+/**
+ * Check that parsed JSON is a preset file this version can read, dropping
+ * presets that are malformed. Values are only checked against each scene's
+ * schema when a preset is applied, since scenes may change in between.
+ * Throws an Error describing the problem when the file is unusable.
+ */
+export function parsePresets(json: unknown): PresetFile {
+  const data = json as Partial<PresetFile> | null
+  if (!data || typeof data !== 'object')
+    throw new Error('Presets are not a JSON object')
+  if (data.version !== PRESETS_VERSION)
+    throw new Error(`Unsupported presets version: ${String(data.version)}`)
+  if (!data.scenes || typeof data.scenes !== 'object')
+    throw new Error('Presets file has no scenes')
+
+  const scenes: Record<string, ScenePreset[]> = {}
+  for (const id of Object.keys(data.scenes)) {
+    const presets = (data.scenes as Record<string, unknown>)[id]
+    if (!Array.isArray(presets))
+      continue
+    const parsed = presets.map(parsePreset).filter((preset): preset is ScenePreset => !!preset)
+    if (parsed.length)
+      scenes[id] = parsed
+  }
+  return { version: PRESETS_VERSION, scenes }
+}
+
+/**
+ * Fit saved values to a scene's schema as it is now. Unknown parameters are
+ * dropped, numbers out of range are clamped, other invalid values and
+ * parameters added since fall back to their defaults. Returns the values and
+ * a note for each change.
+ */
+export function migrateParams(schema: SceneSchema, saved: Readonly<Record<string, SceneParamValue>>): { params: Record<string, SceneParamValue>, notes: string[] } {
+  const params: Record<string, SceneParamValue> = defaultParams(schema)
+  const notes: string[] = []
+  for (const key of Object.keys(saved)) {
+    const param = Object.hasOwn(schema, key) ? schema[key] : undefined
+    const value = saved[key]
+    if (!param) {
+      notes.push(`Ignored unknown parameter ${key}`)
+      continue
+    }
+    if (param.type === 'number' && typeof value === 'number' && Number.isFinite(value) && (value < param.min || value > param.max)) {
+      params[key] = Math.min(Math.max(value, param.min), param.max)
+      notes.push(`${param.label} was out of range, set to ${params[key]}`)
+      continue
+    }
+    const error = validateParam(param, value)
+    if (error)
+      notes.push(`${error}, using the default`)
+    else
+      params[key] = value
+  }
+  return { params, notes }
+}
+
+/**
+ * Holds the named presets of every scene, persists them and notifies
+ * listeners on change. Presets keep the order they were first saved in.
+ */
+export class ScenePresets {
+  private scenes: Record<string, ScenePreset[]>
+  private listeners: (() => void)[] = []
+  private storage?: Storage
+
+  constructor(storage: Storage | undefined = globalThis.localStorage) {
+    this.storage = storage
+    this.scenes = this.load()
+  }
+
+  /** The presets saved for a scene */
+  list(sceneId: string): readonly ScenePreset[] {
+    return this.scenes[sceneId] ?? []
+  }
+
+  /**
+   * Save a scene's current parameters under a name, replacing any preset of
+   * that name. Returns an error when there is nothing to save.
+   */
+  save(scene: IScene, name: string): string | undefined {
+    const trimmed = name.trim()
+    if (!trimmed)
+      return 'A preset needs a name'
+    if (!scene.params)
+      return `${scene.info.name} has nothing to save`
+    this.put(scene.info.id, { name: trimmed, params: { ...scene.params } })
+    this.changed()
+    return undefined
+  }
+
+  remove(sceneId: string, name: string): void {
+    const presets = this.scenes[sceneId]
+    if (!presets)
+      return
+    this.scenes[sceneId] = presets.filter(preset => preset.name !== name)
+    if (!this.scenes[sceneId].length)
+      delete this.scenes[sceneId]
+    this.changed()
+  }
+
+  /**
+   * Apply a saved preset to a scene, migrated to the scene's schema. Returns
+   * a note for each value that had to change, or an error when there is no
+   * such preset.
+   */
+  apply(scene: IScene, name: string): string[] {
+    const preset = this.list(scene.info.id).find(saved => saved.name === name)
+    if (!preset || !scene.schema || !scene.params)
+      return [`${scene.info.name} has no preset ${name}`]
+    const { params, notes } = migrateParams(scene.schema, preset.params)
+    Object.assign(scene.params, params)
+    scene.applyParams?.()
+    return notes
+  }
+
+  /** Every preset, in the versioned file format */
+  export(): PresetFile {
+    return { version: PRESETS_VERSION, scenes: this.scenes }
+  }
+
+  /**
+   * Add the presets from a file, replacing saved presets of the same name.
+   * Returns how many presets were read; throws if the file is unusable.
+   */
+  import(json: unknown): number {
+    const { scenes } = parsePresets(json)
+    let count = 0
+    for (const id of Object.keys(scenes)) {
+      for (const preset of scenes[id]) {
+        this.put(id, preset)
+        count++
+      }
+    }
+    this.changed()
+    return count
+  }
+
+  onChange(listener: () => void): void {
+    this.listeners.push(listener)
+  }
+
+  /** Add a preset, or replace the one of the same name in its place */
+  private put(sceneId: string, preset: ScenePreset): void {
+    const presets = this.scenes[sceneId] ??= []
+    const index = presets.findIndex(saved => saved.name === preset.name)
+    if (index === -1)
+      presets.push(preset)
+    else
+      presets[index] = preset
+  }
+
+  private changed(): void {
+    this.persist()
+    for (const listener of this.listeners)
+      listener()
+  }
+
+  /** Read the saved presets, starting afresh if they are unreadable */
+  private load(): Record<string, ScenePreset[]> {
+    const saved = loadStored(this.storage, STORAGE_KEY)
+    try {
+      return saved === undefined ? {} : parsePresets(saved).scenes
+    }
+    catch {
+      return {}
+    }
+  }
+
+  private persist(): void {
+    saveStored(this.storage, STORAGE_KEY, this.export())
+  }
+}
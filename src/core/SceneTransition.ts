@@ -0,0 +1,102 @@
+import type { WebGLRenderer } from 'three'
+import type { IScene } from './Scene'
+import {
+  Mesh,
+  OrthographicCamera,
+  PlaneGeometry,
+  Scene,
+  ShaderMaterial,
+  Vector2,
+  Vector4,
+  WebGLRenderTarget,
+} from 'three'
+import { transitionFragmentShader, transitionVertexShader } from '../shaders/transitionShader'
+
+/** How one scene gives way to the next */
+export type TransitionEffect = 'crossfade' | 'wipe' | 'zoom-blur' | 'beat-cut'
+
+export const TRANSITION_EFFECTS: Readonly<Record<TransitionEffect, string>> = {
+  'crossfade': 'Crossfade',
+  'wipe': 'Wipe',
+  'zoom-blur': 'Zoom blur',
+  'beat-cut': 'Cut on the beat',
+}
+
+/** uEffect value of each effect in the transition shader */
+const EFFECT_INDEX: Readonly<Record<TransitionEffect, number>> = {
+  'crossfade': 0,
+  'wipe': 1,
+  'zoom-blur': 2,
+  'beat-cut': 3,
+}
+
+/**
+ * Renders the outgoing and incoming scenes into render targets and blends
+ * them onto the canvas with a fullscreen shader. Custom shader output is
+ * blended exactly as drawn; built-in materials come out in linear colour in a
+ * target, so those scenes look a little darker until the transition ends.
+ */
+export class SceneTransition {
+  private renderer: WebGLRenderer
+  private from = new WebGLRenderTarget(1, 1)
+  private to = new WebGLRenderTarget(1, 1)
+  private scene = new Scene()
+  private camera = new OrthographicCamera(-1, 1, 1, -1, 0, 1)
+  private material: ShaderMaterial
+  private size = new Vector2()
+  private viewport = new Vector4()
+  private scissor = new Vector4()
+
+  constructor(renderer: WebGLRenderer) {
+    this.renderer = renderer
+    this.material = new ShaderMaterial({
+      vertexShader: transitionVertexShader,
+      fragmentShader: transitionFragmentShader,
+      uniforms: {
+        tFrom: { value: this.from.texture },
+        tTo: { value: this.to.texture },
+        uProgress: { value: 0 },
+        uEffect: { value: 0 },
+      },
+      depthTest: false,
+      depthWrite: false,
+    })
+    this.scene.add(new Mesh(new PlaneGeometry(2, 2), this.material))
+  }
+
+  /** Draw both scenes and blend them, `progress` running from 0 (from) to 1 (to) */
+  render(from: IScene, to: IScene, progress: number, effect: TransitionEffect): void {
+    const { renderer } = this
+    renderer.getDrawingBufferSize(this.size)
+    if (this.from.width !== this.size.x || this.from.height !== this.size.y) {
+      this.from.setSize(this.size.x, this.size.y)
+      this.to.setSize(this.size.x, this.size.y)
+    }
+
+    // each target is drawn whole, then the canvas viewport and scissor are put back
+    const { viewport, scissor } = this
+    renderer.getViewport(viewport)
+    renderer.getScissor(scissor)
+    const scissorTest = renderer.getScissorTest()
+    renderer.setRenderTarget(this.from)
+    from.render()
+    renderer.setRenderTarget(this.to)
+    to.render()
+    renderer.setRenderTarget(null)
+    renderer.setViewport(viewport)
+    renderer.setScissor(scissor)
+    renderer.setScissorTest(scissorTest)
+
+    this.material.uniforms.uProgress.value = progress
+    this.material.uniforms.uEffect.value = EFFECT_INDEX[effect]
+    renderer.render(this.scene, this.camera)
+  }
+
+  dispose(): void {
+    this.from.dispose()
+    this.to.dispose()
+    this.material.dispose()
+    for (const child of this.scene.children)
+      (child as Mesh).geometry.dispose()
+  }
+}
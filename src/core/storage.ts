@@ -0,0 +1,25 @@
+/** Read a JSON value saved under `key`; undefined if there is none or it is unreadable */
+export function loadStored(storage: Storage | undefined, key: string): unknown {
+  try {
+    const saved = storage?.getItem(key)
+    return saved ? JSON.parse(saved) as unknown : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+/** Save a value as JSON under `key` */
+export function saveStored(storage: Storage | undefined, key: string, value: unknown): void {
+  try {
+    storage?.setItem(key, JSON.stringify(value))
+  }
+  catch {
+    // storage full or disabled: the value still applies for this session
+  }
+}
+
+/** A saved value as an object of fields, or an empty one if it is anything else */
+export function storedRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value && !Array.isArray(value) ? value as Record<string, unknown> : {}
+}
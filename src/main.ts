@@ -1,19 +1,43 @@
-import type { OnsetAnalyser } from './audio/OnsetResult'
+import type { AudioInput } from './audio/AudioEngine'
+import type { DetectorId } from './audio/detectors'
+import type { OnsetRecording } from './audio/OnsetRecorder'
+import type { OnsetAnalyser, PreAnalysed } from './audio/OnsetResult'
+import type { TrackMetadata } from './audio/TrackMetadata'
 import { Clock, WebGLRenderer } from 'three'
 import { VRButton } from 'three/examples/jsm/webxr/VRButton.js'
 
-import { OnsetByAverage } from './audio/OnsetByAverage'
+import { AnalyserSettings } from './audio/AnalyserConfig'
+import { AudioEngine } from './audio/AudioEngine'
+import { DETECTORS } from './audio/detectors'
+import { FilterSettings } from './audio/FilterConfig'
+import { OnsetByBeatMap } from './audio/OnsetByBeatMap'
+import { OnsetByReplay } from './audio/OnsetByReplay'
+import { OnsetRecorder } from './audio/OnsetRecorder'
 import { SceneManager } from './core/SceneManager'
+import { ScenePresets } from './core/ScenePresets'
 import { AudioSurfScene } from './scenes/AudioSurfScene'
 import { NeonGridScene } from './scenes/NeonGridScene'
 import { PrismBloomScene } from './scenes/PrismBloomScene'
 import { TerrainScene } from './scenes/TerrainScene'
 import { TunnelScene } from './scenes/TunnelScene'
 import { ZikrScene } from './scenes/ZikrScene'
+import analyserPanel from './ui/AnalyserPanel'
+import autopilotPanel from './ui/AutopilotPanel'
+import detectorSelect from './ui/DetectorSelect'
 import shareFile from './ui/FileShare'
+import filterPanel from './ui/FilterPanel'
+import micShare from './ui/MicShare'
+import nowPlaying from './ui/NowPlaying'
+import outputSizeSelect from './ui/OutputSizeSelect'
 import previewFile from './ui/PreviewShare'
+import recording from './ui/Recording'
+import sceneGallery from './ui/SceneGallery'
 import sceneNav from './ui/SceneNav'
+import scenePanel from './ui/ScenePanel'
+import sceneTitle from './ui/SceneTitle'
 import screenShare from './ui/ScreenShare'
+import transitionSelect from './ui/TransitionSelect'
+import urlShare from './ui/UrlShare'
 import 'virtual:uno.css'
 
 // =============================================================================
@@ -30,34 +54,104 @@ overlay.prepend(VRButton.createButton(renderer))
 
 // Initialize SceneManager and register scenes
 const sceneManager = new SceneManager(renderer)
-sceneManager.register(new AudioSurfScene(renderer))
-sceneManager.register(new PrismBloomScene(renderer))
-sceneManager.register(new NeonGridScene(renderer))
-sceneManager.register(new TerrainScene(renderer))
-sceneManager.register(new TunnelScene(renderer))
-sceneManager.register(new ZikrScene(renderer))
-// sceneManager.register(new CubeScene(renderer))
+sceneManager.setViewport(window.innerWidth, window.innerHeight, window.devicePixelRatio)
+sceneManager.register(AudioSurfScene.info, renderer => new AudioSurfScene(renderer))
+sceneManager.register(PrismBloomScene.info, renderer => new PrismBloomScene(renderer))
+sceneManager.register(NeonGridScene.info, renderer => new NeonGridScene(renderer))
+sceneManager.register(TerrainScene.info, renderer => new TerrainScene(renderer))
+sceneManager.register(TunnelScene.info, renderer => new TunnelScene(renderer))
+sceneManager.register(ZikrScene.info, renderer => new ZikrScene(renderer))
+// sceneManager.register(CubeScene.info, renderer => new CubeScene(renderer))
 
 // Render initial scene
 sceneManager.render()
 
 // Wire up scene navigation
 sceneNav(sceneManager)
+sceneTitle(sceneManager)
+const captureThumbnail = sceneGallery(sceneManager, renderer.domElement)
+autopilotPanel(sceneManager)
+scenePanel(sceneManager, new ScenePresets())
+transitionSelect(sceneManager)
+outputSizeSelect(sceneManager)
 
 let animationFrame = false
-let curSource: AudioNode
+const showNowPlaying = nowPlaying()
+const recorder = new OnsetRecorder()
+const analyserSettings = new AnalyserSettings()
+const filterSettings = new FilterSettings()
+const showFilters = filterPanel(filterSettings)
+const engine = new AudioEngine()
+let curPreAnalysed: PreAnalysed | undefined
+let curBeatMap: OnsetByBeatMap | undefined
+let detector: DetectorId = detectorSelect((id) => {
+  detector = id
+  // rebuild the analyser on the current input so both detectors hear the same music
+  if (engine.input)
+    connectAnalyser(curPreAnalysed)
+})
 
 // =============================================================================
 // Audio Input Handling
 // =============================================================================
 
-function audioInputChange(source: AudioNode, audioCtx: AudioContext) {
-  if (curSource && curSource !== source)
-    curSource.disconnect()
+function audioInputChange(input: AudioInput) {
+  const sameInput = engine.attach(input)
+  engine.setFilters(filterSettings.config(input.kind))
+  showFilters(input.kind)
+  const { preAnalysed, metadata } = input
+  curPreAnalysed = preAnalysed
+  showTrack(metadata)
+  sceneManager.setVideo(input.video)
+
+  // the next track of a playlist arrives on the same node: keep the analyser and render loop
+  if (sameInput && curBeatMap && preAnalysed) {
+    curBeatMap.load(preAnalysed.map, preAnalysed.position)
+    return
+  }
+  if (sameInput && engine.analyser && !(detector === 'beat-map' && preAnalysed))
+    return
+  connectAnalyser(preAnalysed)
+}
+
+// show the track, or clear it for inputs without one; should its cover fail
+// to reach the scenes, show the track without one rather than the last one's
+function showTrack(metadata: TrackMetadata | undefined) {
+  showNowPlaying(metadata)
+  sceneManager.setTrack(metadata).catch(() => {
+    showNowPlaying(metadata && { ...metadata, cover: undefined })
+  })
+}
+
+function connectAnalyser(preAnalysed?: PreAnalysed) {
+  let analyser: OnsetAnalyser
+  if (detector === 'beat-map' && preAnalysed) {
+    curBeatMap = new OnsetByBeatMap(preAnalysed.map, preAnalysed.position)
+    analyser = curBeatMap
+    engine.setAnalyser(undefined)
+  }
+  else {
+    const live = DETECTORS[detector].create(engine.context, analyserSettings.config)
+    engine.setAnalyser(live)
+    analyser = live
+    curBeatMap = undefined
+  }
+  startVisuals(analyser)
+}
+
+// replay a recorded analysis with no audio running
+function replayInput(capture: OnsetRecording) {
+  engine.detach()
+  engine.setAnalyser(undefined)
+  showTrack(undefined)
+  sceneManager.setVideo(undefined)
+  curPreAnalysed = undefined
+  curBeatMap = undefined
+  startVisuals(new OnsetByReplay(capture))
+}
+
+function startVisuals(analyser: OnsetAnalyser) {
   renderer.setAnimationLoop(null)
-  curSource = source
-  const analyser = new OnsetByAverage(audioCtx)
-  source.connect(analyser.analyser)
   overlay.style.display = 'none'
 
   // Show scene navigation arrows
@@ -79,8 +173,11 @@ function audioError() {
 function draw(analyser: OnsetAnalyser) {
   const delta = clock.getDelta()
   const curOnset = analyser.update(delta)
-  sceneManager.update(delta, curOnset)
+  const frameTime = analyser.frameTime ?? delta
+  recorder.record(frameTime, curOnset)
+  sceneManager.update(frameTime, curOnset)
   sceneManager.render()
+  captureThumbnail()
 }
 
 // =============================================================================
@@ -96,7 +193,7 @@ document.addEventListener('click', () => {
 })
 
 window.addEventListener('resize', () => {
-  sceneManager.resize()
+  sceneManager.setViewport(window.innerWidth, window.innerHeight, window.devicePixelRatio)
 })
 
 // =============================================================================
@@ -107,7 +204,6 @@ function buildRenderer() {
   const renderer = new WebGLRenderer()
   renderer.xr.enabled = true
   renderer.xr.setReferenceSpaceType('local')
-  renderer.setSize(window.innerWidth, window.innerHeight)
   document.body.appendChild(renderer.domElement)
   return renderer
 }
@@ -116,6 +212,15 @@ function buildRenderer() {
 // Initialize Audio Input Options
 // =============================================================================
 
-shareFile(audioInputChange, audioError)
-screenShare(audioInputChange, audioError)
-previewFile(audioInputChange)
+shareFile(engine, audioInputChange, audioError)
+screenShare(engine, audioInputChange, audioError)
+micShare(engine, audioInputChange, audioError)
+previewFile(engine, audioInputChange)
+urlShare(engine, audioInputChange, audioError)
+recording(recorder, replayInput, audioError)
+analyserPanel(analyserSettings)
+analyserSettings.onChange(config => engine.analyser?.configure?.(config))
+filterSettings.onChange((kind, config) => {
+  if (engine.input?.kind === kind)
+    engine.setFilters(config)
+})
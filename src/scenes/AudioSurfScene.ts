@@ -1,6 +1,7 @@
 import type { WebGLRenderer } from 'three'
 import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from '../core/Scene'
+import type { IScene, SceneInfo } from '../core/Scene'
+import type { SceneSchema } from '../core/SceneParams'
 import {
   BoxGeometry,
   Color,
@@ -17,6 +18,8 @@ import {
   SphereGeometry,
   Vector3,
 } from 'three'
+import { getBand } from '../audio/FrequencyBands'
+import { defaultParams } from '../core/SceneParams'
 import {
   audioSurfFragmentShader,
   audioSurfVertexShader,
@@ -30,8 +33,6 @@ import {
 // =============================================================================
 
 const VIEW = {
-  /** Camera field of view */
-  FOV: 72,
   /** Camera near plane */
   NEAR: 1,
   /** Camera far plane */
@@ -47,12 +48,10 @@ const VIEW = {
 } as const
 
 const MOTION = {
-  /** Base scroll speed when no audio is playing */
-  BASE_SPEED: 520,
-  /** Scroll speed multiplier for audio flux */
-  FLUX_SPEED_MULTIPLIER: 3600,
-  /** Scale applied to meanFlux to derive 0-1 energy for color blending */
-  ENERGY_SCALE: 3.5,
+  /** Tempo confidence above which lane hops are timed to the predicted beat */
+  TEMPO_CONFIDENCE: 0.5,
+  /** Beat phase at which a timed hop sets off, landing on the next beat */
+  HOP_START_PHASE: 0.5,
 } as const
 
 const SHIP = {
@@ -79,16 +78,28 @@ const BLOCKS = {
   SPAWN_FADE: 180,
   /** Despawn distance (behind the ship) */
   KILL_Z: -80,
-  /** Flux threshold above which a beat spawns two blocks */
-  DOUBLE_SPAWN_FLUX: 0.25,
   /** Traffic visible before the first beat arrives */
   INITIAL_COUNT: 18,
   /** Base spin speed (radians/sec) */
   BASE_SPIN: 0.3,
-  /** Spin speed multiplier for audio flux */
-  FLUX_SPIN_MULTIPLIER: 6,
+  /** How fast the hi-hat flash fades (per second) */
+  HAT_FLASH_DECAY: 6,
 } as const
 
+/** Live-tunable parameters, shown in the scene panel */
+const SURF_PARAMS = {
+  fov: { type: 'number', label: 'Field of view', min: 30, max: 120, step: 1, default: 72 },
+  baseSpeed: { type: 'number', label: 'Base speed', min: 0, max: 2000, step: 10, default: 520 },
+  fluxSpeed: { type: 'number', label: 'Speed with flux', min: 0, max: 10000, step: 100, default: 3600 },
+  energyScale: { type: 'number', label: 'Colour energy scale', min: 0, max: 10, step: 0.1, default: 3.5 },
+  hopTiming: { type: 'enum', label: 'Lane hops', options: { beat: 'Timed to the beat', kick: 'On each kick' }, default: 'beat' },
+  doubleSpawnFlux: { type: 'number', label: 'Double spawn above flux', min: 0, max: 1, step: 0.01, default: 0.25 },
+  blockSpin: { type: 'number', label: 'Block spin with flux', min: 0, max: 20, step: 0.5, default: 6 },
+  hatFlash: { type: 'number', label: 'Hi-hat flash', min: 0, max: 2, step: 0.05, default: 0.6 },
+  calmRail: { type: 'color', label: 'Calm rail colour', default: '#00ccff' },
+  hotRail: { type: 'color', label: 'Hot rail colour', default: '#ff2266' },
+} as const satisfies SceneSchema
+
 /** Lane count and x-position of a lane center */
 const LANE_COUNT = 3
 const LANE_WIDTH = TRACK_MATH.WIDTH / LANE_COUNT
@@ -99,8 +110,6 @@ const LANE_WIDTH = TRACK_MATH.WIDTH / LANE_COUNT
 
 const COLORS = {
   BACKGROUND: new Color(0x03010A),
-  CALM_RAIL: new Color(0x00CCFF),
-  HOT_RAIL: new Color(0xFF2266),
   CALM_BASE: new Color(0x0A1436),
   HOT_BASE: new Color(0x33060E),
   CALM_SKY: new Color(0x1133AA),
@@ -138,6 +147,18 @@ interface BlockState {
 // =============================================================================
 
 export class AudioSurfScene implements IScene {
+  static readonly info: SceneInfo = {
+    id: 'audio-surf',
+    name: 'Audio Surf',
+    description: 'Ride a three-lane track through blocks spawned on every onset, coloured by how intense the music is.',
+    tags: ['3d', 'track', 'onsets'],
+    author: 'wadexnz',
+  }
+
+  readonly info = AudioSurfScene.info
+  readonly schema = SURF_PARAMS
+  readonly params = defaultParams(SURF_PARAMS)
+
   private renderer: WebGLRenderer
   private scene: Scene
   private camera: PerspectiveCamera
@@ -155,6 +176,11 @@ export class AudioSurfScene implements IScene {
   private offset = 0
   private flux = 0
   private shipLane = 1
+  private prevLane = 1
+  /** Progress of the current lane hop (0 = prevLane, 1 = shipLane) */
+  private hopProgress = 1
+  private prevPhase = 0
+  private hatFlash = 0
 
   constructor(renderer: WebGLRenderer) {
     this.renderer = renderer
@@ -184,15 +210,13 @@ export class AudioSurfScene implements IScene {
     this.blockStates = states
     this.scene.add(this.blocksMesh)
     this.seedBlocks()
-
-    window.addEventListener('resize', () => this.resize())
   }
 
   private buildCamera(): PerspectiveCamera {
-    const aspectRatio = window.innerWidth / window.innerHeight
+    // the aspect is fitted to the output when the scene is first shown
     const camera = new PerspectiveCamera(
-      VIEW.FOV,
-      aspectRatio,
+      this.params.fov,
+      1,
       VIEW.NEAR,
       VIEW.FAR,
     )
@@ -214,8 +238,8 @@ export class AudioSurfScene implements IScene {
         uOffset: { value: 0 },
         uFlux: { value: 0 },
         uEnergy: { value: 0 },
-        uCalmRail: { value: COLORS.CALM_RAIL.clone() },
-        uHotRail: { value: COLORS.HOT_RAIL.clone() },
+        uCalmRail: { value: new Color(this.params.calmRail) },
+        uHotRail: { value: new Color(this.params.hotRail) },
         uCalmBase: { value: COLORS.CALM_BASE.clone() },
         uHotBase: { value: COLORS.HOT_BASE.clone() },
         uFogColor: { value: COLORS.BACKGROUND.clone() },
@@ -343,7 +367,7 @@ export class AudioSurfScene implements IScene {
 
   /** Spawn blocks on a beat — instant, stateless creation */
   private spawnBlocks(flux: number): void {
-    const count = flux > BLOCKS.DOUBLE_SPAWN_FLUX ? 2 : 1
+    const count = flux > this.params.doubleSpawnFlux ? 2 : 1
     const firstLane = Math.floor(Math.random() * LANE_COUNT)
     const color = rampColor(flux * 2.5)
 
@@ -363,14 +387,41 @@ export class AudioSurfScene implements IScene {
       this.blocksMesh.instanceColor.needsUpdate = true
   }
 
-  /** Hop the ship to a random different lane — instant beat response */
+  /** Hop the ship to a random different lane */
   private hopLane(): void {
     const shift = 1 + Math.floor(Math.random() * (LANE_COUNT - 1))
+    this.prevLane = this.shipLane
     this.shipLane = (this.shipLane + shift) % LANE_COUNT
   }
 
+  /**
+   * With beat-timed hops and a confident tempo, set off half a beat early and glide so the ship
+   * lands on the predicted beat; otherwise hop instantly on each kick.
+   */
+  private updateHop(audio: OnsetResult, kick: boolean): void {
+    const { tempo } = audio
+    if (this.params.hopTiming === 'beat' && tempo.bpm > 0 && tempo.confidence > MOTION.TEMPO_CONFIDENCE) {
+      if (this.prevPhase < MOTION.HOP_START_PHASE && tempo.phase >= MOTION.HOP_START_PHASE)
+        this.hopLane()
+      this.hopProgress = tempo.beat || tempo.phase < MOTION.HOP_START_PHASE
+        ? 1
+        : (tempo.phase - MOTION.HOP_START_PHASE) / (1 - MOTION.HOP_START_PHASE)
+    }
+    else if (kick) {
+      this.hopLane()
+      this.hopProgress = 1
+    }
+    this.prevPhase = tempo.phase
+  }
+
+  /** X-position of the ship, eased between its previous and current lane */
+  private shipX(): number {
+    const t = this.hopProgress * this.hopProgress * (3 - 2 * this.hopProgress)
+    return this.laneX(this.prevLane) + (this.laneX(this.shipLane) - this.laneX(this.prevLane)) * t
+  }
+
   private updateBlocks(deltaTime: number, scrollSpeed: number): void {
-    const spin = BLOCKS.BASE_SPIN + this.flux * BLOCKS.FLUX_SPIN_MULTIPLIER
+    const spin = BLOCKS.BASE_SPIN + this.flux * this.params.blockSpin
 
     for (let i = 0; i < BLOCKS.MAX; i++) {
       const block = this.blockStates[i]
@@ -414,10 +465,10 @@ export class AudioSurfScene implements IScene {
   update(deltaTime: number, audio: OnsetResult): void {
     this.flux = audio.flux
     const scrollSpeed
-      = MOTION.BASE_SPEED + audio.flux * MOTION.FLUX_SPEED_MULTIPLIER
+      = this.params.baseSpeed + audio.flux * this.params.fluxSpeed
     this.offset += scrollSpeed * deltaTime
 
-    const energy = Math.min(audio.meanFlux * MOTION.ENERGY_SCALE, 1)
+    const energy = Math.min(audio.meanFlux * this.params.energyScale, 1)
 
     // Track uniforms
     this.trackMaterial.uniforms.uOffset.value = this.offset
@@ -428,19 +479,27 @@ export class AudioSurfScene implements IScene {
     this.skyMaterial.uniforms.uFlux.value = audio.flux
     this.skyMaterial.uniforms.uEnergy.value = energy
 
+    // Hi-hats flash the blocks, kicks hop the ship
+    const kick = getBand(audio, 'bass')?.event ?? audio.event
+    const hat = getBand(audio, 'treble')?.event ?? false
+    const { hatFlash } = this.params
+    if (hat)
+      this.hatFlash = hatFlash
+    else
+      this.hatFlash = Math.max(this.hatFlash - BLOCKS.HAT_FLASH_DECAY * deltaTime * hatFlash, 0)
+
     // Block brightness scales directly with flux (multiplies instance colors)
-    this.blockMaterial.color.setScalar(0.75 + audio.flux * 0.8)
+    this.blockMaterial.color.setScalar(0.75 + audio.flux * 0.8 + this.hatFlash)
 
     // Beat events — instant, stateless changes
-    if (audio.event) {
+    if (audio.event)
       this.spawnBlocks(audio.flux)
-      this.hopLane()
-    }
+    this.updateHop(audio, kick)
 
     // Ship rides the track surface at its lane
     const shipY = trackHeight(SHIP.Z, this.offset, this.flux) + SHIP.HOVER
     this.shipMesh.position.set(
-      this.laneX(this.shipLane) + trackBend(SHIP.Z, this.offset),
+      this.shipX() + trackBend(SHIP.Z, this.offset),
       shipY,
       SHIP.Z,
     )
@@ -460,11 +519,16 @@ export class AudioSurfScene implements IScene {
     this.renderer.render(this.scene, this.camera)
   }
 
-  resize(): void {
-    this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.camera.aspect = window.innerWidth / window.innerHeight
+  applyParams(): void {
+    this.camera.fov = this.params.fov
+    this.camera.updateProjectionMatrix()
+    this.trackMaterial.uniforms.uCalmRail.value.set(this.params.calmRail)
+    this.trackMaterial.uniforms.uHotRail.value.set(this.params.hotRail)
+  }
+
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height
     this.camera.updateProjectionMatrix()
-    this.render()
   }
 
   dispose(): void {
@@ -1,6 +1,7 @@
 import type { WebGLRenderer } from 'three'
 import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from '../core/Scene'
+import type { IScene, SceneInfo } from '../core/Scene'
+import type { SceneSchema } from '../core/SceneParams'
 import {
   AmbientLight,
   BoxGeometry,
@@ -11,6 +12,7 @@ import {
   PointLight,
   Scene,
 } from 'three'
+import { defaultParams } from '../core/SceneParams'
 import { SPEED, toRotationSpeed } from '../core/units'
 
 // =============================================================================
@@ -20,20 +22,21 @@ import { SPEED, toRotationSpeed } from '../core/units'
 const CUBE = {
   /** Cube size */
   SIZE: 2,
-  /** Base rotation speed multiplier */
-  BASE_ROTATION: 0.5,
   /** Camera distance from cube */
   CAMERA_DISTANCE: 5,
-  /** Camera field of view */
-  FOV: 75,
   /** Camera near plane */
   NEAR: 0.1,
   /** Camera far plane */
   FAR: 1000,
-  /** Color transition speed */
-  COLOR_LERP: 0.1,
 } as const
 
+/** Live-tunable parameters, shown in the scene panel */
+const CUBE_PARAMS = {
+  fov: { type: 'number', label: 'Field of view', min: 30, max: 120, step: 1, default: 75 },
+  rotation: { type: 'number', label: 'Spin with flux', min: 0, max: 2, step: 0.05, default: 0.5 },
+  colorLerp: { type: 'number', label: 'Colour blend rate', min: 0.01, max: 1, step: 0.01, default: 0.1 },
+} as const satisfies SceneSchema
+
 // =============================================================================
 // Color Palette
 // =============================================================================
@@ -54,6 +57,18 @@ const COLORS = [
 // =============================================================================
 
 export class CubeScene implements IScene {
+  static readonly info: SceneInfo = {
+    id: 'cube',
+    name: 'Cube',
+    description: 'A single lit cube that spins and changes colour with the beat.',
+    tags: ['3d', 'minimal'],
+    author: 'wadexnz',
+  }
+
+  readonly info = CubeScene.info
+  readonly schema = CUBE_PARAMS
+  readonly params = defaultParams(CUBE_PARAMS)
+
   private renderer: WebGLRenderer
   private scene: Scene
   private camera: PerspectiveCamera
@@ -73,15 +88,13 @@ export class CubeScene implements IScene {
     this.material = this.cube.material as MeshStandardMaterial
     this.targetColor = COLORS[0].clone()
     this.buildLights()
-
-    window.addEventListener('resize', () => this.resize())
   }
 
   private buildCamera(): PerspectiveCamera {
-    const aspectRatio = window.innerWidth / window.innerHeight
+    // the aspect is fitted to the output when the scene is first shown
     const camera = new PerspectiveCamera(
-      CUBE.FOV,
-      aspectRatio,
+      this.params.fov,
+      1,
       CUBE.NEAR,
       CUBE.FAR,
     )
@@ -116,7 +129,7 @@ export class CubeScene implements IScene {
 
   update(deltaTime: number, audio: OnsetResult): void {
     // Rotation speed based on audio flux
-    const fluxSpeed = toRotationSpeed(audio.flux * CUBE.BASE_ROTATION)
+    const fluxSpeed = toRotationSpeed(audio.flux * this.params.rotation)
     const baseSpeed = toRotationSpeed(SPEED.SLOW * 0.1)
     this.rotationSpeed = baseSpeed + fluxSpeed
 
@@ -131,7 +144,7 @@ export class CubeScene implements IScene {
     }
 
     // Smooth color transition
-    this.material.color.lerp(this.targetColor, CUBE.COLOR_LERP)
+    this.material.color.lerp(this.targetColor, this.params.colorLerp)
 
     // Scale cube slightly with audio intensity
     const scale = 1 + audio.meanFlux * 0.3
@@ -142,11 +155,14 @@ export class CubeScene implements IScene {
     this.renderer.render(this.scene, this.camera)
   }
 
-  resize(): void {
-    this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.camera.aspect = window.innerWidth / window.innerHeight
+  applyParams(): void {
+    this.camera.fov = this.params.fov
+    this.camera.updateProjectionMatrix()
+  }
+
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height
     this.camera.updateProjectionMatrix()
-    this.render()
   }
 
   dispose(): void {
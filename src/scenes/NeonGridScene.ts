@@ -1,6 +1,7 @@
 import type { WebGLRenderer } from 'three'
-import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from '../core/Scene'
+import type { OnsetResult, SectionName } from '../audio/OnsetResult'
+import type { IScene, SceneInfo } from '../core/Scene'
+import type { SceneSchema } from '../core/SceneParams'
 import {
   Clock,
   Color,
@@ -13,6 +14,7 @@ import {
   SphereGeometry,
   Vector3,
 } from 'three'
+import { defaultParams } from '../core/SceneParams'
 import {
   neonGridFragmentShader,
   neonGridVertexShader,
@@ -29,8 +31,6 @@ const GRID = {
   DEPTH: 5000,
   /** Subdivision segments (enough for smooth waves) */
   SEGMENTS: 128,
-  /** Camera field of view */
-  FOV: 60,
   /** Camera near plane */
   NEAR: 1,
   /** Camera far plane */
@@ -39,14 +39,30 @@ const GRID = {
   CAMERA_HEIGHT: 60,
   /** Camera look-ahead distance */
   LOOK_AHEAD: 300,
-  /** Base scroll speed */
-  BASE_SPEED: 0,
-  /** Speed multiplier for audio flux */
-  FLUX_SPEED_MULTIPLIER: 4000,
   /** Minimum time between color changes */
   COLOR_COOLDOWN: 0,
 } as const
 
+/** Palette each song section opens on, and how often beats may swap it */
+const SECTION_STYLES: Record<SectionName, { palette: number, cooldown: number }> = {
+  'intro': { palette: 3, cooldown: 1.2 },
+  'build-up': { palette: 2, cooldown: 0.25 },
+  'drop': { palette: 1, cooldown: GRID.COLOR_COOLDOWN },
+  'breakdown': { palette: 4, cooldown: 1.2 },
+  'outro': { palette: 0, cooldown: 1.2 },
+}
+
+/** Live-tunable parameters, shown in the scene panel */
+const GRID_PARAMS = {
+  fov: { type: 'number', label: 'Field of view', min: 30, max: 120, step: 1, default: 60 },
+  baseSpeed: { type: 'number', label: 'Base speed', min: 0, max: 2000, step: 10, default: 0 },
+  fluxSpeed: { type: 'number', label: 'Speed with flux', min: 0, max: 10000, step: 100, default: 4000 },
+  beatPalettes: { type: 'boolean', label: 'Swap palettes on beats', default: true },
+  laserCount: { type: 'number', label: 'Laser beams', min: 0, max: 10, step: 1, default: 5 },
+  buildingGap: { type: 'number', label: 'Gap between buildings', min: 0, max: 0.9, step: 0.01, default: 0.25 },
+  background: { type: 'color', label: 'Background', default: '#050008' },
+} as const satisfies SceneSchema
+
 const SUN = {
   /** Sun radius */
   RADIUS: 150,
@@ -61,8 +77,6 @@ const SUN = {
 } as const
 
 const LASERS = {
-  /** Number of horizontal beams */
-  COUNT: 5,
   /** Plane width (matches sky) */
   WIDTH: 4000,
   /** Plane height — vertical range the beams span */
@@ -82,8 +96,6 @@ const BUILDINGS = {
   DISTANCE: 1850,
   /** Vertical offset */
   Y_OFFSET: 140,
-  /** Gap in center where sun is visible (fraction of width, 0–1) */
-  CENTER_GAP: 0.25,
 } as const
 
 const SKY = {
@@ -114,6 +126,18 @@ const COLOR_PALETTES = [
 // =============================================================================
 
 export class NeonGridScene implements IScene {
+  static readonly info: SceneInfo = {
+    id: 'neon-grid',
+    name: 'Neon Grid',
+    description: 'Fly over a synthwave grid between neon buildings, with palettes that follow the sections of the song.',
+    tags: ['3d', 'synthwave', 'sections'],
+    author: 'wadexnz',
+  }
+
+  readonly info = NeonGridScene.info
+  readonly schema = GRID_PARAMS
+  readonly params = defaultParams(GRID_PARAMS)
+
   private renderer: WebGLRenderer
   private scene: Scene
   private camera: PerspectiveCamera
@@ -136,7 +160,7 @@ export class NeonGridScene implements IScene {
 
     this.camera = this.buildCamera()
     this.scene = new Scene()
-    this.scene.background = new Color(0x050008)
+    this.scene.background = new Color(this.params.background)
 
     const { mesh, material } = this.buildGrid()
     this.gridMesh = mesh
@@ -162,15 +186,13 @@ export class NeonGridScene implements IScene {
     this.scene.add(this.buildingsMesh)
 
     this.colorClock = new Clock()
-
-    window.addEventListener('resize', () => this.resize())
   }
 
   private buildCamera(): PerspectiveCamera {
-    const aspectRatio = window.innerWidth / window.innerHeight
+    // the aspect is fitted to the output when the scene is first shown
     const camera = new PerspectiveCamera(
-      GRID.FOV,
-      aspectRatio,
+      this.params.fov,
+      1,
       GRID.NEAR,
       GRID.FAR,
     )
@@ -347,7 +369,7 @@ export class NeonGridScene implements IScene {
       uniforms: {
         uEdgeColor: { value: palette.grid.clone() },
         uFlux: { value: 0 },
-        uCenterGap: { value: BUILDINGS.CENTER_GAP },
+        uCenterGap: { value: this.params.buildingGap },
       },
       side: DoubleSide,
     })
@@ -396,7 +418,7 @@ export class NeonGridScene implements IScene {
       uniforms: {
         uLaserColor: { value: palette.grid.clone() },
         uFlux: { value: 0 },
-        uBeamCount: { value: LASERS.COUNT },
+        uBeamCount: { value: this.params.laserCount },
       },
       transparent: true,
       depthWrite: false,
@@ -411,7 +433,7 @@ export class NeonGridScene implements IScene {
   update(deltaTime: number, audio: OnsetResult): void {
     // Scroll grid toward camera, speed driven by flux
     const scrollSpeed
-      = GRID.BASE_SPEED + audio.flux * GRID.FLUX_SPEED_MULTIPLIER
+      = this.params.baseSpeed + audio.flux * this.params.fluxSpeed
     this.offset += scrollSpeed * deltaTime
 
     // Update shader uniforms
@@ -425,32 +447,47 @@ export class NeonGridScene implements IScene {
     this.laserMaterial.uniforms.uFlux.value = audio.flux
     this.buildingsMaterial.uniforms.uFlux.value = audio.flux
 
-    // Handle beat events — instant color swap
-    if (audio.event && this.colorClock.getElapsedTime() > GRID.COLOR_COOLDOWN) {
+    // Song sections jump to their own palette and set the beat swap rate
+    const style = SECTION_STYLES[audio.section.name]
+    if (audio.section.changed) {
       this.colorClock = new Clock()
+      this.applyPalette(style.palette)
+    }
+    else if (this.params.beatPalettes && audio.event && this.colorClock.getElapsedTime() > style.cooldown) {
+      // Handle beat events — instant color swap
+      this.colorClock = new Clock()
+      this.applyPalette((this.currentPaletteIndex + 1) % COLOR_PALETTES.length)
+    }
+  }
 
-      this.currentPaletteIndex
-        = (this.currentPaletteIndex + 1) % COLOR_PALETTES.length
-      const palette = COLOR_PALETTES[this.currentPaletteIndex]
+  private applyPalette(index: number): void {
+    this.currentPaletteIndex = index
+    const palette = COLOR_PALETTES[index]
 
-      this.gridMaterial.uniforms.uGridColor.value.copy(palette.grid)
-      const sunMat = this.sunMesh.material as ShaderMaterial
-      sunMat.uniforms.uSunColor.value.copy(palette.sun)
-      this.skyMaterial.uniforms.uGlowColor.value.copy(palette.sun)
-      this.laserMaterial.uniforms.uLaserColor.value.copy(palette.grid)
-      this.buildingsMaterial.uniforms.uEdgeColor.value.copy(palette.grid)
-    }
+    this.gridMaterial.uniforms.uGridColor.value.copy(palette.grid)
+    const sunMat = this.sunMesh.material as ShaderMaterial
+    sunMat.uniforms.uSunColor.value.copy(palette.sun)
+    this.skyMaterial.uniforms.uGlowColor.value.copy(palette.sun)
+    this.laserMaterial.uniforms.uLaserColor.value.copy(palette.grid)
+    this.buildingsMaterial.uniforms.uEdgeColor.value.copy(palette.grid)
   }
 
   render(): void {
     this.renderer.render(this.scene, this.camera)
   }
 
-  resize(): void {
-    this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.camera.aspect = window.innerWidth / window.innerHeight
+  applyParams(): void {
+    this.camera.fov = this.params.fov
+    this.camera.updateProjectionMatrix()
+    this.laserMaterial.uniforms.uBeamCount.value = this.params.laserCount
+    this.buildingsMaterial.uniforms.uCenterGap.value = this.params.buildingGap
+    if (this.scene.background instanceof Color)
+      this.scene.background.set(this.params.background)
+  }
+
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height
     this.camera.updateProjectionMatrix()
-    this.render()
   }
 
   dispose(): void {
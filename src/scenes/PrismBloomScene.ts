@@ -1,6 +1,7 @@
-import type { WebGLRenderer } from 'three'
+import type { Texture, WebGLRenderer } from 'three'
 import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from '../core/Scene'
+import type { IScene, SceneInfo, SceneTrack } from '../core/Scene'
+import type { SceneSchema } from '../core/SceneParams'
 import {
   Color,
   Mesh,
@@ -10,6 +11,7 @@ import {
   ShaderMaterial,
   Vector2,
 } from 'three'
+import { defaultParams } from '../core/SceneParams'
 
 // =============================================================================
 // Prism Bloom Scene Constants
@@ -68,6 +70,10 @@ uniform float uSegments;
 uniform vec3 uPrimary;
 uniform vec3 uSecondary;
 uniform vec3 uAccent;
+uniform sampler2D uVideo;
+uniform float uVideoMix;
+uniform sampler2D uCover;
+uniform float uCoverMix;
 
 const float PI = 3.14159265359;
 const float TAU = PI * 2.0;
@@ -136,6 +142,14 @@ void main() {
     float twinkle = star * hash(starCell + 17.0) * (0.15 + flux * 1.1) * vignette;
     color += uAccent * twinkle;
 
+    // A playing video is folded through the same symmetry as the prism.
+    vec2 videoUv = fract(folded * (0.9 - flux * 0.2) + 0.5);
+    vec3 video = texture2D(uVideo, videoUv).rgb;
+    color = mix(color, color * 0.5 + video * (0.7 + flux * 0.9), uVideoMix);
+    // Without one, the track's cover art takes its place, a little softer.
+    vec3 cover = texture2D(uCover, videoUv).rgb;
+    color = mix(color, color * 0.6 + cover * (0.5 + flux * 0.9), uCoverMix);
+
     color *= vignette;
     color = color / (1.0 + color);
     color = pow(color, vec3(0.78));
@@ -144,11 +158,32 @@ void main() {
 }
 `
 
+/** Live-tunable parameters, shown in the scene panel */
+const PRISM_PARAMS = {
+  timeScale: { type: 'number', label: 'Animation speed', min: 0, max: 4, step: 0.05, default: 1 },
+  hitPalettes: { type: 'boolean', label: 'Cycle palette on hits', default: true },
+  hitSymmetry: { type: 'boolean', label: 'Cycle symmetry on hits', default: true },
+  videoMix: { type: 'number', label: 'Video mix', min: 0, max: 1, step: 0.05, default: 1 },
+  coverMix: { type: 'number', label: 'Cover art mix', min: 0, max: 1, step: 0.05, default: 0.6 },
+} as const satisfies SceneSchema
+
 // =============================================================================
 // Prism Bloom Scene
 // =============================================================================
 
 export class PrismBloomScene implements IScene {
+  static readonly info: SceneInfo = {
+    id: 'prism-bloom',
+    name: 'Prism Bloom',
+    description: 'A kaleidoscopic prism shader that blooms with spectral flux and folds a playing video, or the cover art of the track, into its symmetry.',
+    tags: ['shader', 'kaleidoscope', 'video', 'cover'],
+    author: 'wadexnz',
+  }
+
+  readonly info = PrismBloomScene.info
+  readonly schema = PRISM_PARAMS
+  readonly params = defaultParams(PRISM_PARAMS)
+
   private renderer: WebGLRenderer
   private scene: Scene
   private camera: OrthographicCamera
@@ -177,7 +212,7 @@ export class PrismBloomScene implements IScene {
       vertexShader: prismVertexShader,
       fragmentShader: prismFragmentShader,
       uniforms: {
-        uResolution: { value: new Vector2(window.innerWidth, window.innerHeight) },
+        uResolution: { value: new Vector2(1, 1) },
         uTime: { value: 0 },
         uFlux: { value: 0 },
         uMeanFlux: { value: 0 },
@@ -185,6 +220,10 @@ export class PrismBloomScene implements IScene {
         uPrimary: { value: palette.primary.clone() },
         uSecondary: { value: palette.secondary.clone() },
         uAccent: { value: palette.accent.clone() },
+        uVideo: { value: null },
+        uVideoMix: { value: 0 },
+        uCover: { value: null },
+        uCoverMix: { value: 0 },
       },
       depthTest: false,
       depthWrite: false,
@@ -195,15 +234,17 @@ export class PrismBloomScene implements IScene {
   }
 
   update(deltaTime: number, audio: OnsetResult): void {
-    this.time += deltaTime
+    this.time += deltaTime * this.params.timeScale
 
     this.prismMaterial.uniforms.uTime.value = this.time
     this.prismMaterial.uniforms.uFlux.value = audio.flux
     this.prismMaterial.uniforms.uMeanFlux.value = audio.meanFlux
 
     if (audio.event) {
-      this.currentPaletteIndex = (this.currentPaletteIndex + 1) % COLOR_PALETTES.length
-      this.currentSymmetryIndex = (this.currentSymmetryIndex + 1) % SYMMETRIES.length
+      if (this.params.hitPalettes)
+        this.currentPaletteIndex = (this.currentPaletteIndex + 1) % COLOR_PALETTES.length
+      if (this.params.hitSymmetry)
+        this.currentSymmetryIndex = (this.currentSymmetryIndex + 1) % SYMMETRIES.length
 
       const palette = COLOR_PALETTES[this.currentPaletteIndex]
       this.prismMaterial.uniforms.uPrimary.value.copy(palette.primary)
@@ -217,10 +258,25 @@ export class PrismBloomScene implements IScene {
     this.renderer.render(this.scene, this.camera)
   }
 
-  resize(): void {
-    this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.prismMaterial.uniforms.uResolution.value.set(window.innerWidth, window.innerHeight)
-    this.render()
+  applyParams(): void {
+    const { uVideo, uVideoMix, uCover, uCoverMix } = this.prismMaterial.uniforms
+    uVideoMix.value = uVideo.value ? this.params.videoMix : 0
+    // the cover only stands in while there is no video
+    uCoverMix.value = uCover.value && !uVideo.value ? this.params.coverMix : 0
+  }
+
+  setVideo(video: Texture | null): void {
+    this.prismMaterial.uniforms.uVideo.value = video
+    this.applyParams()
+  }
+
+  setTrack(track: SceneTrack | undefined): void {
+    this.prismMaterial.uniforms.uCover.value = track?.cover ?? null
+    this.applyParams()
+  }
+
+  resize(width: number, height: number): void {
+    this.prismMaterial.uniforms.uResolution.value.set(width, height)
   }
 
   dispose(): void {
@@ -1,6 +1,7 @@
 import type { WebGLRenderer } from 'three'
 import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from '../core/Scene'
+import type { IScene, SceneInfo } from '../core/Scene'
+import type { SceneSchema } from '../core/SceneParams'
 import {
   BufferAttribute,
   BufferGeometry,
@@ -15,6 +16,7 @@ import {
   ShaderMaterial,
   Vector3,
 } from 'three'
+import { defaultParams } from '../core/SceneParams'
 import { terrainFragmentShader, terrainVertexShader } from '../shaders/terrainShader'
 
 // =============================================================================
@@ -28,8 +30,6 @@ const TERRAIN = {
   DEPTH: 2400,
   /** Terrain subdivision segments */
   SEGMENTS: 512,
-  /** Camera field of view */
-  FOV: 75,
   /** Camera near plane */
   NEAR: 1,
   /** Camera far plane */
@@ -38,12 +38,6 @@ const TERRAIN = {
   CAMERA_HEIGHT: 80,
   /** Camera look-ahead distance */
   LOOK_AHEAD: 200,
-  /** Base scroll speed */
-  BASE_SPEED: 10,
-  /** Speed multiplier for audio flux */
-  FLUX_SPEED_MULTIPLIER: 3200,
-  /** Minimum time between color changes */
-  COLOR_COOLDOWN: 0.15,
 } as const
 
 const STARFIELD = {
@@ -59,8 +53,6 @@ const STARFIELD = {
   SPREAD_Z: 2000,
   /** Star size */
   SIZE: 2,
-  /** Parallax scroll multiplier (relative to terrain) */
-  PARALLAX: 1.5,
 } as const
 
 // =============================================================================
@@ -68,19 +60,55 @@ const STARFIELD = {
 // =============================================================================
 
 const COLOR_PALETTES = [
-  { base: new Color(0x4A7A4A), highlight: new Color(0x8FCF8F) }, // Forest Green
-  { base: new Color(0x6A4A35), highlight: new Color(0xC9A080) }, // Earth Brown
-  { base: new Color(0x3A6A8A), highlight: new Color(0x7AC0E0) }, // Ocean Blue
-  { base: new Color(0x7A6A4A), highlight: new Color(0xE8D090) }, // Desert Sand
-  { base: new Color(0x5A7A5A), highlight: new Color(0xA0D0A0) }, // Moss Green
-  { base: new Color(0x6A6A8A), highlight: new Color(0xB0B0D8) }, // Mountain Slate
+  { id: 'forest', base: new Color(0x4A7A4A), highlight: new Color(0x8FCF8F) }, // Forest Green
+  { id: 'earth', base: new Color(0x6A4A35), highlight: new Color(0xC9A080) }, // Earth Brown
+  { id: 'ocean', base: new Color(0x3A6A8A), highlight: new Color(0x7AC0E0) }, // Ocean Blue
+  { id: 'desert', base: new Color(0x7A6A4A), highlight: new Color(0xE8D090) }, // Desert Sand
+  { id: 'moss', base: new Color(0x5A7A5A), highlight: new Color(0xA0D0A0) }, // Moss Green
+  { id: 'slate', base: new Color(0x6A6A8A), highlight: new Color(0xB0B0D8) }, // Mountain Slate
 ]
 
+/** Live-tunable parameters, shown in the scene panel */
+const TERRAIN_PARAMS = {
+  fov: { type: 'number', label: 'Field of view', min: 30, max: 120, step: 1, default: 75 },
+  baseSpeed: { type: 'number', label: 'Base speed', min: 0, max: 500, step: 5, default: 10 },
+  fluxSpeed: { type: 'number', label: 'Speed with flux', min: 0, max: 10000, step: 100, default: 3200 },
+  palette: {
+    type: 'enum',
+    label: 'Palette',
+    options: {
+      cycle: 'Cycle on beats',
+      forest: 'Forest green',
+      earth: 'Earth brown',
+      ocean: 'Ocean blue',
+      desert: 'Desert sand',
+      moss: 'Moss green',
+      slate: 'Mountain slate',
+    },
+    default: 'cycle',
+  },
+  colorCooldown: { type: 'number', label: 'Colour change cooldown (s)', min: 0, max: 5, step: 0.05, default: 0.15 },
+  stars: { type: 'boolean', label: 'Stars', default: true },
+  starParallax: { type: 'number', label: 'Star parallax', min: 0, max: 5, step: 0.1, default: 1.5 },
+} as const satisfies SceneSchema
+
 // =============================================================================
 // Terrain Scene
 // =============================================================================
 
 export class TerrainScene implements IScene {
+  static readonly info: SceneInfo = {
+    id: 'terrain',
+    name: 'Terrain',
+    description: 'Glide over a shader landscape under a starfield, its hills swelling with spectral flux.',
+    tags: ['3d', 'landscape', 'shader'],
+    author: 'wadexnz',
+  }
+
+  readonly info = TerrainScene.info
+  readonly schema = TERRAIN_PARAMS
+  readonly params = defaultParams(TERRAIN_PARAMS)
+
   private renderer: WebGLRenderer
   private scene: Scene
   private camera: PerspectiveCamera
@@ -116,15 +144,13 @@ export class TerrainScene implements IScene {
     this.scene.add(this.starfield)
 
     this.colorClock = new Clock()
-
-    window.addEventListener('resize', () => this.resize())
   }
 
   private buildCamera(): PerspectiveCamera {
-    const aspectRatio = window.innerWidth / window.innerHeight
+    // the aspect is fitted to the output when the scene is first shown
     const camera = new PerspectiveCamera(
-      TERRAIN.FOV,
-      aspectRatio,
+      this.params.fov,
+      1,
       TERRAIN.NEAR,
       TERRAIN.FAR,
     )
@@ -196,7 +222,7 @@ export class TerrainScene implements IScene {
   update(deltaTime: number, audio: OnsetResult): void {
     // Update time and offset for terrain scrolling
     this.time += deltaTime
-    const scrollSpeed = TERRAIN.BASE_SPEED + audio.flux * TERRAIN.FLUX_SPEED_MULTIPLIER
+    const scrollSpeed = this.params.baseSpeed + audio.flux * this.params.fluxSpeed
     this.offset += scrollSpeed * deltaTime
 
     // Update shader uniforms
@@ -208,21 +234,23 @@ export class TerrainScene implements IScene {
     // Update starfield - twinkling effect based on audio
     this.updateStarfield(audio.flux, deltaTime)
 
-    // Handle beat events - change colors instantly
-    if (audio.event && this.colorClock.getElapsedTime() > TERRAIN.COLOR_COOLDOWN) {
+    // Handle beat events - change colors instantly, unless a palette is chosen
+    if (this.params.palette === 'cycle' && audio.event && this.colorClock.getElapsedTime() > this.params.colorCooldown) {
       this.colorClock = new Clock()
 
       // Cycle to next color palette
-      this.currentPaletteIndex = (this.currentPaletteIndex + 1) % COLOR_PALETTES.length
-      const palette = COLOR_PALETTES[this.currentPaletteIndex]
-
-      // Update colors instantly
-      this.terrainMaterial.uniforms.uBaseColor.value.copy(palette.base)
-      this.terrainMaterial.uniforms.uHighlightColor.value.copy(palette.highlight)
-      this.starfieldMaterial.color.copy(palette.highlight)
+      this.applyPalette((this.currentPaletteIndex + 1) % COLOR_PALETTES.length)
     }
   }
 
+  private applyPalette(index: number): void {
+    this.currentPaletteIndex = index
+    const palette = COLOR_PALETTES[index]
+    this.terrainMaterial.uniforms.uBaseColor.value.copy(palette.base)
+    this.terrainMaterial.uniforms.uHighlightColor.value.copy(palette.highlight)
+    this.starfieldMaterial.color.copy(palette.highlight)
+  }
+
   private updateStarfield(flux: number, deltaTime: number): void {
     const positions = this.starfieldGeometry.getAttribute('position') as BufferAttribute
     const count = STARFIELD.STAR_COUNT
@@ -231,7 +259,7 @@ export class TerrainScene implements IScene {
     const clampedDelta = Math.min(deltaTime, 0.1)
 
     // Calculate scroll speed (same as terrain but with parallax)
-    const scrollSpeed = (TERRAIN.BASE_SPEED + flux * TERRAIN.FLUX_SPEED_MULTIPLIER) * STARFIELD.PARALLAX
+    const scrollSpeed = (this.params.baseSpeed + flux * this.params.fluxSpeed) * this.params.starParallax
 
     for (let i = 0; i < count; i++) {
       const i3 = i * 3
@@ -254,11 +282,18 @@ export class TerrainScene implements IScene {
     this.renderer.render(this.scene, this.camera)
   }
 
-  resize(): void {
-    this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.camera.aspect = window.innerWidth / window.innerHeight
+  applyParams(): void {
+    this.camera.fov = this.params.fov
+    this.camera.updateProjectionMatrix()
+    this.starfield.visible = this.params.stars
+    const chosen = COLOR_PALETTES.findIndex(palette => palette.id === this.params.palette)
+    if (chosen >= 0)
+      this.applyPalette(chosen)
+  }
+
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height
     this.camera.updateProjectionMatrix()
-    this.render()
   }
 
   dispose(): void {
@@ -1,6 +1,7 @@
 import type { Texture, WebGLRenderer } from 'three'
 import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from '../core/Scene'
+import type { IScene, SceneInfo } from '../core/Scene'
+import type { SceneSchema } from '../core/SceneParams'
 import {
   AmbientLight,
   BackSide,
@@ -16,6 +17,8 @@ import {
   TubeGeometry,
   Vector3,
 } from 'three'
+import { getBand } from '../audio/FrequencyBands'
+import { defaultParams } from '../core/SceneParams'
 import { SPEED, toTunnelSpeed } from '../core/units'
 
 // =============================================================================
@@ -37,18 +40,25 @@ const TUNNEL = {
   CHUNKS_BEHIND: 1,
   /** Number of chunks kept ahead of the camera */
   CHUNKS_AHEAD: 3,
-  /** Camera field of view */
-  FOV: 90,
   /** Camera near plane */
   NEAR: 1,
   /** Camera far plane */
   FAR: 10000,
   /** Camera offset from orb */
   CAMERA_OFFSET: 100,
-  /** Minimum time between rotation direction changes */
-  ROTATION_COOLDOWN: 0.1,
 } as const
 
+/** Live-tunable parameters, shown in the scene panel */
+const TUNNEL_PARAMS = {
+  fov: { type: 'number', label: 'Field of view', min: 30, max: 150, step: 1, default: 90 },
+  speed: { type: 'number', label: 'Speed', min: 0, max: 1, step: 0.05, default: SPEED.NORMAL },
+  rollSpeed: { type: 'number', label: 'Roll with flux', min: 0, max: 10, step: 0.1, default: 2 },
+  rotationCooldown: { type: 'number', label: 'Roll flip cooldown (s)', min: 0, max: 2, step: 0.05, default: 0.1 },
+  lightResponse: { type: 'number', label: 'Light with flux', min: 0, max: 10, step: 0.1, default: 4 },
+  hatColors: { type: 'boolean', label: 'Hi-hats shift the light', default: true },
+  lightColor: { type: 'color', label: 'Light colour', default: '#ffa500' },
+} as const satisfies SceneSchema
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -68,9 +78,20 @@ function randColor(color: number): number {
 // =============================================================================
 
 export class TunnelScene implements IScene {
+  static readonly info: SceneInfo = {
+    id: 'tunnel',
+    name: 'Tunnel',
+    description: 'Race down an endless stone tunnel whose speed and spin follow the beat; a playing video lines the walls.',
+    tags: ['3d', 'flight', 'video'],
+    author: 'wadexnz',
+  }
+
+  readonly info = TunnelScene.info
+  readonly schema = TUNNEL_PARAMS
+  readonly params = defaultParams(TUNNEL_PARAMS)
+
   private totalLength: number
   private chunkCount: number
-  private speed: number
   private rotDir = 1
   private pos = 0
 
@@ -83,6 +104,9 @@ export class TunnelScene implements IScene {
   private aLight: AmbientLight
   private clock: Clock
   private tubeMaterial?: MeshPhongMaterial
+  private stoneTexture?: Texture
+  /** The playing video, shown on the wall instead of the stone */
+  private videoTexture?: Texture
   private tubeMeshes = new Map<number, Mesh>()
   private activeTunnelChunk = -1
 
@@ -90,7 +114,6 @@ export class TunnelScene implements IScene {
     this.renderer = renderer
     this.totalLength = TUNNEL.SEGMENTS * TUNNEL.SEGMENT_LENGTH
     this.chunkCount = Math.ceil(TUNNEL.SEGMENTS / TUNNEL.CHUNK_SEGMENTS)
-    this.speed = toTunnelSpeed(SPEED.NORMAL)
 
     this.camera = this.buildCamera()
     this.scene = new Scene()
@@ -105,14 +128,13 @@ export class TunnelScene implements IScene {
     loader.load(`${import.meta.env.BASE_URL}img/stonePattern.jpg`, (texture: Texture) => {
       this.buildTube(texture)
     })
-    window.addEventListener('resize', () => this.resize())
   }
 
   private buildCamera(): PerspectiveCamera {
-    const aspectRatio = window.innerWidth / window.innerHeight
+    // the aspect is fitted to the output when the scene is first shown
     const camera = new PerspectiveCamera(
-      TUNNEL.FOV,
-      aspectRatio,
+      this.params.fov,
+      1,
       TUNNEL.NEAR,
       TUNNEL.FAR,
     )
@@ -122,7 +144,7 @@ export class TunnelScene implements IScene {
   }
 
   private buildALight(): AmbientLight {
-    const aLight = new AmbientLight('orange', 0.5)
+    const aLight = new AmbientLight(this.params.lightColor, 0.5)
     this.scene.add(aLight)
     return aLight
   }
@@ -145,18 +167,22 @@ export class TunnelScene implements IScene {
   }
 
   private buildTube(texture: Texture): void {
-    this.tubeMaterial = new MeshPhongMaterial({
-      side: BackSide,
-      map: texture,
-    })
-    if (this.tubeMaterial.map) {
-      this.tubeMaterial.map.wrapS = RepeatWrapping
-      this.tubeMaterial.map.wrapT = RepeatWrapping
-      this.tubeMaterial.map.repeat.set(TUNNEL.CHUNK_TUBE_SEGMENTS / 3, 2)
-    }
+    this.stoneTexture = texture
+    this.tubeMaterial = new MeshPhongMaterial({ side: BackSide })
+    this.setWall(this.videoTexture ?? texture)
     this.updateTunnelChunks()
   }
 
+  private setWall(texture: Texture): void {
+    if (!this.tubeMaterial)
+      return
+    texture.wrapS = RepeatWrapping
+    texture.wrapT = RepeatWrapping
+    texture.repeat.set(TUNNEL.CHUNK_TUBE_SEGMENTS / 3, 2)
+    this.tubeMaterial.map = texture
+    this.tubeMaterial.needsUpdate = true
+  }
+
   private updateTunnelChunks(): void {
     if (!this.tubeMaterial)
       return
@@ -220,20 +246,26 @@ export class TunnelScene implements IScene {
   }
 
   update(deltaTime: number, audio: OnsetResult): void {
-    const movement = this.speed * audio.flux
+    const movement = toTunnelSpeed(this.params.speed) * audio.flux
     const change = ((40 + movement) / this.totalLength) * deltaTime
 
-    if (audio.event) {
-      if (this.clock.getElapsedTime() > TUNNEL.ROTATION_COOLDOWN) {
-        this.clock = new Clock()
-        this.rotDir *= -1
-      }
+    // Kicks flip the roll direction, hi-hats shift the light color
+    const kick = getBand(audio, 'bass')?.event ?? audio.event
+    // without a treble band there are no hi-hats to tell apart from kicks
+    const hat = getBand(audio, 'treble')?.event ?? false
+
+    if (kick && this.clock.getElapsedTime() > this.params.rotationCooldown) {
+      this.clock = new Clock()
+      this.rotDir *= -1
+    }
+
+    if (hat && this.params.hatColors) {
       this.aLight.color.r = randColor(this.aLight.color.r)
       this.aLight.color.b = randColor(this.aLight.color.b)
       this.aLight.color.g = randColor(this.aLight.color.g)
     }
 
-    this.aLight.intensity = Math.min(0.1 + audio.meanFlux * 4, 1.0)
+    this.aLight.intensity = Math.min(0.1 + audio.meanFlux * this.params.lightResponse, 1.0)
 
     if (this.pos + change >= 1)
       this.pos = 0
@@ -243,7 +275,7 @@ export class TunnelScene implements IScene {
     const nextPoint = this.curve.getPoint((this.pos + change) % 1)
     const ang = this.looking(nextPoint, this.orb.position)
 
-    const ort = audio.flux * 2 * deltaTime
+    const ort = audio.flux * this.params.rollSpeed * deltaTime
     this.orb.rotation.z += ort * this.rotDir
     this.orb.rotation.x = ang
     this.camera.rotation.x = ang
@@ -253,17 +285,30 @@ export class TunnelScene implements IScene {
     this.renderer.render(this.scene, this.camera)
   }
 
+  applyParams(): void {
+    this.camera.fov = this.params.fov
+    this.camera.updateProjectionMatrix()
+    this.aLight.color.set(this.params.lightColor)
+  }
+
+  setVideo(video: Texture | null): void {
+    this.videoTexture?.dispose()
+    // a clone shares the frames but keeps its own wrapping and repeat
+    this.videoTexture = video?.clone()
+    const wall = this.videoTexture ?? this.stoneTexture
+    if (wall)
+      this.setWall(wall)
+  }
+
   private looking(pointTo: Vector3, pointFrom: Vector3): number {
     const vec = new Vector3()
     vec.subVectors(pointTo, pointFrom)
     return -Math.atan(vec.y / vec.z)
   }
 
-  resize(): void {
-    this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.camera.aspect = window.innerWidth / window.innerHeight
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height
     this.camera.updateProjectionMatrix()
-    this.render()
   }
 
   dispose(): void {
@@ -272,9 +317,8 @@ export class TunnelScene implements IScene {
     }
     this.tubeMeshes.clear()
 
-    if (this.tubeMaterial) {
-      this.tubeMaterial.map?.dispose()
-      this.tubeMaterial.dispose()
-    }
+    this.stoneTexture?.dispose()
+    this.videoTexture?.dispose()
+    this.tubeMaterial?.dispose()
   }
 }
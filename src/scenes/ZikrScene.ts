@@ -1,6 +1,7 @@
 import type { WebGLRenderer } from 'three'
-import type { OnsetResult } from '../audio/OnsetResult'
-import type { IScene } from '../core/Scene'
+import type { OnsetResult, SectionName } from '../audio/OnsetResult'
+import type { IScene, SceneInfo } from '../core/Scene'
+import type { SceneSchema } from '../core/SceneParams'
 import {
   AdditiveBlending,
   CircleGeometry,
@@ -19,6 +20,7 @@ import {
   ShaderMaterial,
   Vector2,
 } from 'three'
+import { defaultParams } from '../core/SceneParams'
 import {
   zikrFigureFragmentShader,
   zikrFigureVertexShader,
@@ -38,8 +40,6 @@ import {
 // intensifies, periodically stopping and reversing direction.
 
 const ZIKR = {
-  /** Camera field of view */
-  FOV: 60,
   /** Camera near plane */
   NEAR: 0.1,
   /** Camera far plane */
@@ -52,26 +52,16 @@ const ZIKR = {
   LOOK_AT_HEIGHT: 1.1,
   /** Base camera orbit speed (radians/sec) */
   CAMERA_BASE_ORBIT: 0.02,
-  /** Camera orbit speed multiplier for flux */
-  CAMERA_FLUX_ORBIT: 0.1,
-  /** Base ring rotation speed when quiet (radians/sec) - a slow procession */
-  BASE_ANGULAR_SPEED: 0.1,
-  /** Ring rotation speed multiplier for flux - builds to a run */
-  FLUX_ANGULAR_SPEED: 4.2,
   /** How fast motion glides between run and sway phases (per second) */
   MOTION_EASE_RATE: 0.7,
   /** Minimum seconds running before the circle may slow into a sway phase */
   RUN_PHASE_MIN: 7,
   /** Minimum seconds swaying before the circle may run again */
   SWAY_PHASE_MIN: 3.5,
-  /** Minimum time between color changes */
-  COLOR_COOLDOWN: 0.3,
   /** Base bob cadence (radians/sec of phase) */
   STOMP_BASE_SPEED: 2.2,
   /** Bob cadence multiplier for flux */
   STOMP_FLUX_SPEED: 10.0,
-  /** Vertical bob distance at flux 1.0 (world units) */
-  STOMP_AMPLITUDE: 1.1,
   /** Bob wave crests traveling around each ring */
   BOB_WAVE_NUMBER: 3,
   /** Base side-to-side sway cadence (radians/sec of phase) */
@@ -80,8 +70,6 @@ const ZIKR = {
   SWAY_FLUX_SPEED: 5.0,
   /** Torso roll while running (radians per unit of flux) */
   SWAY_ROLL_RUN: 0.35,
-  /** Extra torso roll when standing still (radians per unit of flux) */
-  SWAY_ROLL_STILL: 1.5,
   /** Maximum torso roll (radians) */
   SWAY_ROLL_MAX: 0.45,
   /** Lateral weight-shift when standing still (world units per unit of flux) */
@@ -100,15 +88,33 @@ const ZIKR = {
   MIST_RADIUS: 16,
   /** Radius of the dark ground disc */
   GROUND_RADIUS: 28,
+  /** Section confidence needed before a section change overrides the cycle */
+  SECTION_CONFIDENCE: 0.4,
 } as const
 
-/** Concentric rings: elders inner (larger, steadier), young men outer (faster) */
+/** Concentric rings: elders inner (larger, steadier), young men outer (faster, see ZIKR_PARAMS) */
 const RINGS = [
-  { radius: 4.5, count: 12, scale: 1.12, speedFactor: 0.85 },
-  { radius: 7.4, count: 20, scale: 1.0, speedFactor: 1.05 },
-  { radius: 10.3, count: 28, scale: 0.92, speedFactor: 1.25 },
+  { radius: 4.5, count: 12, scale: 1.12, speed: 'innerRingSpeed' },
+  { radius: 7.4, count: 20, scale: 1.0, speed: 'middleRingSpeed' },
+  { radius: 10.3, count: 28, scale: 0.92, speed: 'outerRingSpeed' },
 ] as const
 
+/** Live-tunable parameters, shown in the scene panel */
+const ZIKR_PARAMS = {
+  fov: { type: 'number', label: 'Field of view', min: 30, max: 100, step: 1, default: 60 },
+  cameraOrbit: { type: 'number', label: 'Camera orbit with flux', min: 0, max: 1, step: 0.01, default: 0.1 },
+  baseAngularSpeed: { type: 'number', label: 'Procession speed', min: 0, max: 1, step: 0.01, default: 0.1 },
+  fluxAngularSpeed: { type: 'number', label: 'Run speed with flux', min: 0, max: 10, step: 0.1, default: 4.2 },
+  innerRingSpeed: { type: 'number', label: 'Inner ring speed', min: 0, max: 2, step: 0.05, default: 0.85 },
+  middleRingSpeed: { type: 'number', label: 'Middle ring speed', min: 0, max: 2, step: 0.05, default: 1.05 },
+  outerRingSpeed: { type: 'number', label: 'Outer ring speed', min: 0, max: 2, step: 0.05, default: 1.25 },
+  stompAmplitude: { type: 'number', label: 'Stomp height', min: 0, max: 3, step: 0.05, default: 1.1 },
+  swayRollStill: { type: 'number', label: 'Sway when still', min: 0, max: 3, step: 0.05, default: 1.5 },
+  colorCooldown: { type: 'number', label: 'Colour change cooldown (s)', min: 0, max: 5, step: 0.1, default: 0.3 },
+  background: { type: 'color', label: 'Background', default: '#030409' },
+  mist: { type: 'boolean', label: 'Mist', default: true },
+} as const satisfies SceneSchema
+
 /**
  * The ritual's cycle: run counterclockwise, glide to a swaying standstill,
  * run clockwise, sway again. Beat events advance to the next phase once the
@@ -117,6 +123,14 @@ const RINGS = [
  */
 const PHASE_TARGETS = [-1, 0, 1, 0] as const
 
+/** Song sections that force the circle into a run or a sway straight away */
+const SECTION_PHASES: Partial<Record<SectionName, 'run' | 'sway'>> = {
+  intro: 'sway',
+  drop: 'run',
+  breakdown: 'sway',
+  outro: 'sway',
+}
+
 /** Upper-body profile revolved into a figure: waist, chest, shoulders, head, papakha hat */
 const FIGURE_PROFILE: ReadonlyArray<readonly [number, number]> = [
   [0.001, 0.0],
@@ -157,6 +171,18 @@ interface FigureData {
 }
 
 export class ZikrScene implements IScene {
+  static readonly info: SceneInfo = {
+    id: 'zikr',
+    name: 'Zikr',
+    description: 'Rings of dancers circle, halt and sway in a zikr ritual whose phases advance on the beat.',
+    tags: ['3d', 'figures', 'sections'],
+    author: 'wadexnz',
+  }
+
+  readonly info = ZikrScene.info
+  readonly schema = ZIKR_PARAMS
+  readonly params = defaultParams(ZIKR_PARAMS)
+
   private renderer: WebGLRenderer
   private scene: Scene
   private camera: PerspectiveCamera
@@ -186,7 +212,7 @@ export class ZikrScene implements IScene {
   constructor(renderer: WebGLRenderer) {
     this.renderer = renderer
     this.scene = new Scene()
-    this.scene.background = new Color(0x030409)
+    this.scene.background = new Color(this.params.background)
     this.camera = this.buildCamera()
 
     const { mesh, material } = this.buildFigures()
@@ -208,12 +234,12 @@ export class ZikrScene implements IScene {
     this.colorClock = new Clock()
 
     this.updateFigures(0)
-    window.addEventListener('resize', () => this.resize())
+    this.applyParams()
   }
 
   private buildCamera(): PerspectiveCamera {
-    const aspectRatio = window.innerWidth / window.innerHeight
-    const camera = new PerspectiveCamera(ZIKR.FOV, aspectRatio, ZIKR.NEAR, ZIKR.FAR)
+    // the aspect is fitted to the output when the scene is first shown
+    const camera = new PerspectiveCamera(this.params.fov, 1, ZIKR.NEAR, ZIKR.FAR)
     camera.position.set(0, ZIKR.CAMERA_HEIGHT, ZIKR.CAMERA_RADIUS)
     camera.lookAt(0, ZIKR.LOOK_AT_HEIGHT, 0)
     return camera
@@ -332,13 +358,13 @@ export class ZikrScene implements IScene {
       // Smooth swooping bob, traveling as a wave around each ring
       const bobPhase = this.stompPhase
         + figure.baseAngle * ZIKR.BOB_WAVE_NUMBER + figure.jitter * 0.5
-      const bob = flux * ZIKR.STOMP_AMPLITUDE
+      const bob = flux * this.params.stompAmplitude
         * (0.5 + 0.5 * Math.sin(bobPhase))
         * (0.45 + 0.55 * drive)
 
       // Side-to-side sway, near-unison, strongest when standing still
       const swayWave = Math.sin(this.swayPhase + figure.jitter * 0.3)
-      const rollAmount = flux * (ZIKR.SWAY_ROLL_RUN + ZIKR.SWAY_ROLL_STILL * stillness)
+      const rollAmount = flux * (ZIKR.SWAY_ROLL_RUN + this.params.swayRollStill * stillness)
       const roll = swayWave * Math.min(rollAmount, ZIKR.SWAY_ROLL_MAX)
       const shift = swayWave * flux * ZIKR.SWAY_SHIFT * stillness
 
@@ -365,6 +391,9 @@ export class ZikrScene implements IScene {
     // Clamp deltaTime to prevent massive jumps when returning from background tab
     const delta = Math.min(deltaTime, 0.1)
 
+    if (audio.section.changed && audio.section.confidence > ZIKR.SECTION_CONFIDENCE)
+      this.enterSection(audio.section.name)
+
     // Motion glides toward the current phase target: the circle decelerates,
     // stands swaying, then accelerates the other way
     const target = PHASE_TARGETS[this.phaseIndex]
@@ -372,13 +401,13 @@ export class ZikrScene implements IScene {
     this.motion += Math.max(-maxStep, Math.min(maxStep, target - this.motion))
 
     // The circles walk, jog, and run with the music's intensity
-    const angularSpeed = ZIKR.BASE_ANGULAR_SPEED + audio.flux * ZIKR.FLUX_ANGULAR_SPEED
+    const angularSpeed = this.params.baseAngularSpeed + audio.flux * this.params.fluxAngularSpeed
     for (let ring = 0; ring < RINGS.length; ring++)
-      this.ringAngles[ring] += angularSpeed * RINGS[ring].speedFactor * this.motion * delta
+      this.ringAngles[ring] += angularSpeed * this.params[RINGS[ring].speed] * this.motion * delta
 
     this.stompPhase += (ZIKR.STOMP_BASE_SPEED + audio.flux * ZIKR.STOMP_FLUX_SPEED) * delta
     this.swayPhase += (ZIKR.SWAY_BASE_SPEED + audio.flux * ZIKR.SWAY_FLUX_SPEED) * delta
-    this.cameraAngle += (ZIKR.CAMERA_BASE_ORBIT + audio.flux * ZIKR.CAMERA_FLUX_ORBIT) * delta
+    this.cameraAngle += (ZIKR.CAMERA_BASE_ORBIT + audio.flux * this.params.cameraOrbit) * delta
     this.mistDrift += (ZIKR.MIST_DRIFT_BASE + audio.flux * ZIKR.MIST_DRIFT_FLUX) * delta
 
     if (audio.event) {
@@ -388,7 +417,7 @@ export class ZikrScene implements IScene {
         this.phaseClock = new Clock()
         this.phaseIndex = (this.phaseIndex + 1) % PHASE_TARGETS.length
       }
-      if (this.colorClock.getElapsedTime() > ZIKR.COLOR_COOLDOWN) {
+      if (this.colorClock.getElapsedTime() > this.params.colorCooldown) {
         this.colorClock = new Clock()
         this.currentPaletteIndex = (this.currentPaletteIndex + 1) % COLOR_PALETTES.length
         this.applyPalette()
@@ -414,6 +443,19 @@ export class ZikrScene implements IScene {
     this.camera.lookAt(0, ZIKR.LOOK_AT_HEIGHT, 0)
   }
 
+  /** Jump to the next run or sway phase when a new song section calls for it */
+  private enterSection(name: SectionName): void {
+    const phase = SECTION_PHASES[name]
+    if (!phase)
+      return
+    const running = PHASE_TARGETS[this.phaseIndex] !== 0
+    if (running === (phase === 'run'))
+      return
+    // phases alternate between running and swaying, so one step flips it
+    this.phaseIndex = (this.phaseIndex + 1) % PHASE_TARGETS.length
+    this.phaseClock = new Clock()
+  }
+
   private applyPalette(): void {
     const palette = COLOR_PALETTES[this.currentPaletteIndex]
     this.figureMaterial.uniforms.uGlowColor.value.copy(palette.glow)
@@ -428,11 +470,18 @@ export class ZikrScene implements IScene {
     this.renderer.render(this.scene, this.camera)
   }
 
-  resize(): void {
-    this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.camera.aspect = window.innerWidth / window.innerHeight
+  applyParams(): void {
+    this.camera.fov = this.params.fov
+    this.camera.updateProjectionMatrix()
+    if (this.scene.background instanceof Color)
+      this.scene.background.set(this.params.background)
+    for (const mesh of this.mistMeshes)
+      mesh.visible = this.params.mist
+  }
+
+  resize(width: number, height: number): void {
+    this.camera.aspect = width / height
     this.camera.updateProjectionMatrix()
-    this.render()
   }
 
   dispose(): void {
@@ -0,0 +1,63 @@
+/**
+ * Transition Shader - GLSL shaders blending two rendered scenes
+ * Effects: 0 crossfade, 1 wipe, 2 zoom-blur, 3 beat-cut
+ */
+
+export const transitionVertexShader = /* glsl */ `
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`
+
+export const transitionFragmentShader = /* glsl */ `
+uniform sampler2D tFrom;
+uniform sampler2D tTo;
+uniform float uProgress;
+uniform int uEffect;
+
+varying vec2 vUv;
+
+const float PI = 3.14159265359;
+const int ZOOM_SAMPLES = 16;
+const float WIPE_EDGE = 0.08;
+
+// Average samples along the line to the centre, smearing the image outwards.
+vec3 zoomBlur(sampler2D tex, vec2 uv, float strength) {
+    vec2 fromCentre = uv - 0.5;
+    vec3 sum = vec3(0.0);
+    for (int i = 0; i < ZOOM_SAMPLES; i++) {
+        float scale = 1.0 - strength * float(i) / float(ZOOM_SAMPLES);
+        sum += texture2D(tex, 0.5 + fromCentre * scale).rgb;
+    }
+    return sum / float(ZOOM_SAMPLES);
+}
+
+void main() {
+    float progress = clamp(uProgress, 0.0, 1.0);
+    vec3 color;
+
+    if (uEffect == 1) {
+        // A soft edge sweeping left to right, fully off screen at both ends.
+        float edge = progress * (1.0 + WIPE_EDGE);
+        float amount = 1.0 - smoothstep(edge - WIPE_EDGE, edge, vUv.x);
+        color = mix(texture2D(tFrom, vUv).rgb, texture2D(tTo, vUv).rgb, amount);
+    }
+    else if (uEffect == 2) {
+        // Blur peaks halfway, hiding the swap between the two scenes.
+        float strength = sin(progress * PI) * 0.5;
+        float amount = smoothstep(0.35, 0.65, progress);
+        color = mix(zoomBlur(tFrom, vUv, strength), zoomBlur(tTo, vUv, strength), amount);
+    }
+    else if (uEffect == 3) {
+        color = progress < 1.0 ? texture2D(tFrom, vUv).rgb : texture2D(tTo, vUv).rgb;
+    }
+    else {
+        color = mix(texture2D(tFrom, vUv).rgb, texture2D(tTo, vUv).rgb, progress);
+    }
+
+    gl_FragColor = vec4(color, 1.0);
+}
+`
@@ -0,0 +1,12 @@
+/** In-memory Storage, as localStorage is not available headless */
+export class MemoryStorage {
+  items = new Map<string, string>()
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value)
+  }
+}
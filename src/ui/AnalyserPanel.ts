@@ -0,0 +1,83 @@
+import type { AnalyserConfig, AnalyserSettings } from '../audio/AnalyserConfig'
+import type { ConfigField } from './ConfigField'
+import { ANALYSER_CONFIG_LIMITS } from '../audio/AnalyserConfig'
+import { labelledField, sliderField } from './ConfigField'
+
+type ConfigKey = keyof AnalyserConfig
+
+/** Build a labelled control for one config field */
+function createField(key: ConfigKey, value: number): ConfigField<HTMLInputElement | HTMLSelectElement> {
+  const limit = ANALYSER_CONFIG_LIMITS[key]
+  let field: ConfigField<HTMLInputElement | HTMLSelectElement>
+  if (key === 'fftSize') {
+    // only powers of two are valid, so offer exactly those
+    const select = document.createElement('select')
+    select.className = 'bg-transparent c-yellow50 b-1 p-1'
+    for (let size = limit.min; size <= limit.max; size *= 2)
+      select.add(new Option(String(size), String(size)))
+    field = labelledField(limit.label, select)
+  }
+  else {
+    field = sliderField(limit)
+  }
+  field.input.value = String(value)
+  field.output.textContent = String(value)
+  return field
+}
+
+// wire up the onset detection panel, shown with the overlay button or the P key,
+// which applies each change to the live analyser through settings
+export default function analyserPanel(settings: AnalyserSettings) {
+  const panel = document.getElementById('analyser-panel') as HTMLElement
+  const toggle = document.getElementById('analyser-toggle') as HTMLButtonElement
+  const fields = document.getElementById('analyser-fields') as HTMLElement
+  const errorText = document.getElementById('analyser-error') as HTMLElement
+  const reset = document.getElementById('analyser-reset') as HTMLButtonElement
+
+  const controls = (Object.keys(ANALYSER_CONFIG_LIMITS) as ConfigKey[]).map((key) => {
+    const field = createField(key, settings.config[key])
+    field.input.addEventListener('input', () => {
+      const errors = settings.update({ [key]: Number(field.input.value) })
+      errorText.textContent = errors.join('. ')
+      errorText.style.display = errors.length ? 'block' : 'none'
+    })
+    fields.append(field.row)
+    return { key, ...field }
+  })
+
+  // keep the controls in step with the settings, e.g. after a reset
+  settings.onChange((config) => {
+    for (const { key, input, output } of controls) {
+      input.value = String(config[key])
+      output.textContent = String(config[key])
+    }
+  })
+
+  const togglePanel = () => {
+    panel.style.display = panel.style.display === 'flex' ? 'none' : 'flex'
+  }
+
+  // clicks inside the panel must not toggle the overlay
+  panel.addEventListener('click', (event) => {
+    event.stopPropagation()
+  })
+
+  toggle.addEventListener('click', (event) => {
+    event.stopPropagation()
+    togglePanel()
+  })
+
+  reset.addEventListener('click', () => {
+    settings.reset()
+    errorText.style.display = 'none'
+  })
+
+  document.addEventListener('keydown', (event) => {
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement)
+      return
+    if (event.ctrlKey || event.metaKey || event.altKey)
+      return
+    if (event.key === 'p' || event.key === 'P')
+      togglePanel()
+  })
+}
@@ -0,0 +1,123 @@
+import type { Autopilot, AutopilotConfig } from '../core/Autopilot'
+import type { SceneManager } from '../core/SceneManager'
+import { AUTOPILOT_CONFIG_LIMITS, SCENE_WEIGHT_LIMIT, validateAutopilotConfig } from '../core/Autopilot'
+import { validFields } from '../core/ConfigLimits'
+import { loadStored, saveStored, storedRecord } from '../core/storage'
+import { sliderField } from './ConfigField'
+
+type AutopilotKey = keyof AutopilotConfig
+
+/** Where the autopilot rules and rotation are saved */
+const STORAGE_KEY = 'beat-tube:autopilot'
+
+/** Apply the saved settings to the autopilot, skipping anything that no longer validates */
+function loadAutopilot(autopilot: Autopilot): void {
+  const saved = storedRecord(loadStored(localStorage, STORAGE_KEY))
+  autopilot.enabled = saved.enabled === true
+  Object.assign(autopilot.config, validFields(AUTOPILOT_CONFIG_LIMITS, storedRecord(saved.config), validateAutopilotConfig))
+  const weights = storedRecord(saved.weights)
+  for (const id of Object.keys(weights)) {
+    const weight = weights[id]
+    if (typeof weight === 'number' && weight >= SCENE_WEIGHT_LIMIT.min && weight <= SCENE_WEIGHT_LIMIT.max)
+      autopilot.weights[id] = weight
+  }
+  if (Array.isArray(saved.excluded))
+    autopilot.excluded = new Set(saved.excluded.filter((id): id is string => typeof id === 'string'))
+}
+
+function saveAutopilot(autopilot: Autopilot): void {
+  saveStored(localStorage, STORAGE_KEY, {
+    enabled: autopilot.enabled,
+    config: autopilot.config,
+    weights: autopilot.weights,
+    excluded: Array.from(autopilot.excluded),
+  })
+}
+
+// wire up the autopilot section of the scene gallery: turning it on and off (also
+// with the A key), pinning the scene on screen, the switching rules, and which
+// scenes are in rotation and how often each is picked
+export default function autopilotPanel(sceneManager: SceneManager): void {
+  const { autopilot } = sceneManager
+  const enabled = document.getElementById('autopilot-enabled') as HTMLInputElement
+  const pin = document.getElementById('autopilot-pin') as HTMLInputElement
+  const fields = document.getElementById('autopilot-fields') as HTMLElement
+  const scenes = document.getElementById('autopilot-scenes') as HTMLElement
+
+  loadAutopilot(autopilot)
+
+  enabled.checked = autopilot.enabled
+  enabled.addEventListener('change', () => {
+    autopilot.enabled = enabled.checked
+    saveAutopilot(autopilot)
+  })
+  pin.addEventListener('change', () => {
+    autopilot.pinned = pin.checked
+  })
+
+  for (const key of Object.keys(AUTOPILOT_CONFIG_LIMITS) as AutopilotKey[]) {
+    const { row, input, output } = sliderField(AUTOPILOT_CONFIG_LIMITS[key])
+    const show = () => {
+      const value = autopilot.config[key]
+      input.value = String(value)
+      // every rule but the dwell time is off at 0
+      output.textContent = value || key === 'minDwell' ? String(value) : 'Off'
+    }
+    show()
+    input.addEventListener('input', () => {
+      autopilot.config[key] = Number(input.value)
+      show()
+      saveAutopilot(autopilot)
+    })
+    fields.append(row)
+  }
+
+  // one row per scene: whether it is in rotation, and its weight when picking
+  for (const info of sceneManager.scenes) {
+    const row = document.createElement('div')
+    row.className = 'flex items-center gap-2'
+    const included = document.createElement('input')
+    included.type = 'checkbox'
+    included.checked = !autopilot.excluded.has(info.id)
+    included.title = 'In rotation'
+    const name = document.createElement('span')
+    name.className = 'flex-1 truncate'
+    name.textContent = info.name
+    const weight = document.createElement('input')
+    weight.type = 'number'
+    weight.className = 'w-16 bg-transparent c-yellow50 b-1 p-1'
+    weight.title = SCENE_WEIGHT_LIMIT.label
+    weight.min = String(SCENE_WEIGHT_LIMIT.min)
+    weight.max = String(SCENE_WEIGHT_LIMIT.max)
+    weight.step = String(SCENE_WEIGHT_LIMIT.step)
+    weight.value = String(autopilot.weights[info.id] ?? 1)
+
+    included.addEventListener('change', () => {
+      if (included.checked)
+        autopilot.excluded.delete(info.id)
+      else
+        autopilot.excluded.add(info.id)
+      saveAutopilot(autopilot)
+    })
+    weight.addEventListener('change', () => {
+      const value = Math.min(Math.max(Number(weight.value) || 0, SCENE_WEIGHT_LIMIT.min), SCENE_WEIGHT_LIMIT.max)
+      weight.value = String(value)
+      autopilot.weights[info.id] = value
+      saveAutopilot(autopilot)
+    })
+    row.append(included, name, weight)
+    scenes.append(row)
+  }
+
+  document.addEventListener('keydown', (event) => {
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement)
+      return
+    if (event.ctrlKey || event.metaKey || event.altKey)
+      return
+    if (event.key === 'a' || event.key === 'A') {
+      autopilot.enabled = !autopilot.enabled
+      enabled.checked = autopilot.enabled
+      saveAutopilot(autopilot)
+    }
+  })
+}
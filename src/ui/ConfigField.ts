@@ -0,0 +1,30 @@
+import type { ConfigLimit } from '../core/ConfigLimits'
+
+export interface ConfigField<T extends HTMLInputElement | HTMLSelectElement = HTMLInputElement> {
+  row: HTMLElement
+  input: T
+  /** Beside the label, for showing the current value */
+  output: HTMLElement
+}
+
+/** Lay out a control under its label */
+export function labelledField<T extends HTMLInputElement | HTMLSelectElement>(label: string, input: T): ConfigField<T> {
+  const row = document.createElement('label')
+  row.className = 'flex flex-col'
+  const title = document.createElement('span')
+  title.className = 'flex justify-between'
+  const output = document.createElement('span')
+  title.append(label, output)
+  row.append(title, input)
+  return { row, input, output }
+}
+
+/** Build a labelled slider spanning a setting's limits */
+export function sliderField({ label, min, max, step }: ConfigLimit): ConfigField {
+  const input = document.createElement('input')
+  input.type = 'range'
+  input.min = String(min)
+  input.max = String(max)
+  input.step = String(step)
+  return labelledField(label, input)
+}
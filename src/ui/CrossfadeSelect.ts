@@ -0,0 +1,33 @@
+import { loadStored, saveStored } from '../core/storage'
+
+/** Crossfade lengths offered, in seconds; 0 cuts straight from track to track */
+const DURATIONS = [0, 2, 4, 8, 12] as const
+
+/** Where the chosen crossfade is saved */
+const STORAGE_KEY = 'beat-tube:crossfade'
+
+function loadDuration(): number {
+  const saved = loadStored(localStorage, STORAGE_KEY)
+  return (DURATIONS as readonly unknown[]).includes(saved) ? saved as number : 0
+}
+
+/**
+ * Fill the crossfade dropdown, remember the choice and report changes.
+ * Returns the saved crossfade length in seconds.
+ */
+export default function crossfadeSelect(onChange: (seconds: number) => void): number {
+  const select = document.getElementById('playlist-crossfade') as HTMLSelectElement
+  const initial = loadDuration()
+
+  for (const seconds of DURATIONS)
+    select.add(new Option(seconds ? `Crossfade: ${seconds}s` : 'Crossfade: Off', String(seconds)))
+  select.value = String(initial)
+
+  select.addEventListener('change', () => {
+    const seconds = Number(select.value)
+    saveStored(localStorage, STORAGE_KEY, seconds)
+    onChange(seconds)
+  })
+
+  return initial
+}
@@ -0,0 +1,29 @@
+import type { DetectorId } from '../audio/detectors'
+import { DEFAULT_DETECTOR, DETECTORS, isDetectorId } from '../audio/detectors'
+
+/**
+ * Fill the detector dropdown and report the chosen detector.
+ * A `?detector=` query parameter picks the initial detector.
+ */
+export default function detectorSelect(onChange: (id: DetectorId) => void): DetectorId {
+  const select = document.getElementById('detector-select') as HTMLSelectElement
+  const requested = new URLSearchParams(window.location.search).get('detector') ?? ''
+  const initial = isDetectorId(requested) ? requested : DEFAULT_DETECTOR
+
+  for (const id of Object.keys(DETECTORS) as DetectorId[]) {
+    const option = document.createElement('option')
+    option.value = id
+    option.textContent = DETECTORS[id].label
+    select.append(option)
+  }
+  select.value = initial
+
+  // keep clicks on the dropdown from toggling the overlay
+  select.parentElement?.addEventListener('click', e => e.stopPropagation())
+  select.addEventListener('change', () => {
+    if (isDetectorId(select.value))
+      onChange(select.value)
+  })
+
+  return initial
+}
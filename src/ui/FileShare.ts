@@ -1,42 +1,325 @@
-import type { AudioCallback } from '../audio/OnsetResult'
+import type { AudioCallback, AudioEngine } from '../audio/AudioEngine'
+import type { BeatMap } from '../audio/BeatMap'
+import type { Playback } from '../audio/PlaybackController'
+import type { Track } from '../audio/Playlist'
+import type { TrackMetadata } from '../audio/TrackMetadata'
+import { analyseInBackground } from '../audio/BeatMapAnalysis'
+import { Crossfader } from '../audio/Crossfader'
+import { MediaElementController } from '../audio/MediaElementController'
+import { PlaybackController } from '../audio/PlaybackController'
+import { Playlist } from '../audio/Playlist'
+import { parseMetadata } from '../audio/TrackMetadata'
+import crossfadeSelect from './CrossfadeSelect'
+import playlistQueue from './PlaylistQueue'
+import transport from './Transport'
 
-// add event listeners to the file input and file share buttons and call the audioChange callback when a file is selected and decoded
-export default function shareFile(audioChange: AudioCallback, audioError: () => void) {
+/** Seconds between checks for a track nearing its end */
+const CROSSFADE_CHECK_INTERVAL = 0.25
+
+/**
+ * Bytes of video decoded whole for a beat map. A longer video is analysed
+ * live instead, as its decoded soundtrack would take seconds to produce and
+ * hundreds of MB to hold, and it plays through an element anyway.
+ */
+const VIDEO_DECODE_LIMIT = 32 * 1024 * 1024
+
+/**
+ * Seconds ahead of the fade point to start getting the next track ready, so
+ * its decode and analysis are done by the time it is due to fade in
+ */
+const PREPARE_AHEAD = 15
+
+/** Bytes read from the start of a video that is not decoded, for tags stored up front */
+const VIDEO_TAG_BYTES = 1024 * 1024
+
+/** A track decoded and analysed, ready to start */
+interface PreparedTrack {
+  track: Track
+  metadata: TrackMetadata
+  buffer?: AudioBuffer
+  map?: BeatMap
+  isVideo: boolean
+}
+
+/** The track to follow `from`, once ready, and whether `from` already ran out */
+interface Upcoming {
+  from: Playback
+  ready?: PreparedTrack
+  ended: boolean
+}
+
+/** Files worth queueing; some systems report no type, so let decoding decide */
+function isMediaFile(file: File): boolean {
+  return !file.type || file.type.startsWith('audio/') || file.type.startsWith('video/')
+}
+
+/** Play a video through a hidden element, its sound routed into `output` */
+function playVideo(audioCtx: AudioContext, file: File, output: AudioNode): MediaElementController<HTMLVideoElement> {
+  const video = document.createElement('video')
+  video.playsInline = true
+  // kept apart from video.src, which stopping the element clears before release
+  const url = URL.createObjectURL(file)
+  video.src = url
+  const source = audioCtx.createMediaElementSource(video)
+  source.connect(output)
+  return new MediaElementController(video, () => {
+    source.disconnect()
+    URL.revokeObjectURL(url)
+  })
+}
+
+// add event listeners to the file input, file share button and overlay drop target,
+// queue the chosen audio and video files and play them one after another through a single output
+// node, so the analyser and render loop carry on from track to track; each next
+// track is got ready before this one ends and, with a crossfade set, starts early
+// and the two are mixed while it fades in
+export default function shareFile(engine: AudioEngine, audioChange: AudioCallback, audioError: () => void) {
   // ui components
+  const overlay = document.getElementById('overlay') as HTMLElement
   const fileShare = document.getElementById('file-share') as HTMLElement
   const fileInput = document.getElementById('file-input') as HTMLInputElement
   const fileError = document.getElementById('file-error') as HTMLElement
-  const fileReader = new FileReader()
+
+  const playlist = new Playlist()
+  let output: GainNode | undefined
+  let crossfader: Crossfader | undefined
+  let controller: Playback | undefined
+  // the next track, got ready while the one playing runs out
+  let upcoming: Upcoming | undefined
+  let crossfade = crossfadeSelect((seconds) => {
+    crossfade = seconds
+  })
+  // bumped per play request so a slow decode never overrides a later choice
+  let request = 0
+  // stops the beat map analysis of a request that was overridden
+  let analysis: AbortController | undefined
+  // the request of a track picked to play that is still being got ready
+  let picked: number | undefined
+  const showTransport = transport()
+
+  // drop any decode or analysis in flight
+  const cancelRequest = () => {
+    request++
+    analysis?.abort()
+  }
+
+  const stopPlayback = () => {
+    crossfader?.stop()
+    controller = undefined
+    showTransport(undefined)
+  }
+
+  // carry on with the queue once the playing track runs out
+  const advance = () => play(playlist.next())
+
+  // drop the track got ready to follow, handing the queue back to the playing one
+  const discardUpcoming = (): Upcoming | undefined => {
+    const dropped = upcoming
+    upcoming = undefined
+    if (dropped)
+      dropped.from.onEnded = advance
+    return dropped
+  }
+
+  const showFileError = () => {
+    fileError.style.display = 'block'
+    audioError()
+  }
+
+  // read, decode and analyse a track, or undefined once a later request took over
+  const prepare = async (track: Track): Promise<PreparedTrack | undefined> => {
+    cancelRequest()
+    const current = request
+    const { signal } = analysis = new AbortController()
+    const audioCtx = engine.context
+    const isVideo = track.file.type.startsWith('video/')
+    const decode = !isVideo || track.file.size <= VIDEO_DECODE_LIMIT
+    const bytes = await (decode ? track.file : track.file.slice(0, VIDEO_TAG_BYTES)).arrayBuffer()
+    // read the tags first: decoding detaches the buffer
+    const metadata = parseMetadata(new Uint8Array(bytes), track.name)
+    // Extract audio samples; a video whose soundtrack is not decoded is analysed live
+    const buffer = decode
+      ? await audioCtx.decodeAudioData(bytes).catch((error: unknown) => {
+          if (!isVideo)
+            throw error
+          return undefined
+        })
+      : undefined
+    if (current !== request)
+      return undefined
+    // Analyse the whole file up front so playback needs no live detection;
+    // should that fail, the file is analysed live instead
+    const map = buffer && await analyseInBackground(buffer, signal).catch(() => undefined)
+    if (current !== request)
+      return undefined
+    return { track, metadata, buffer, map, isVideo }
+  }
+
+  // start a prepared track, fading it in over whatever is playing
+  const start = ({ track, metadata, buffer, map, isVideo }: PreparedTrack) => {
+    const audioCtx = engine.context
+    output ??= audioCtx.createGain()
+    crossfader ??= new Crossfader(audioCtx, output)
+    // videos play through an element so their frames can be shown
+    let video: HTMLVideoElement | undefined
+    const createPlayback = (channel: GainNode): Playback => {
+      if (!isVideo && buffer)
+        return new PlaybackController(audioCtx, buffer, channel)
+      const playback = playVideo(audioCtx, track.file, channel)
+      video = playback.element
+      return playback
+    }
+    const previous = controller
+    // fade a playing track out, but never for longer than it has left
+    const fade = previous?.playing ? Math.min(crossfade, previous.remaining) : 0
+    if (previous)
+      previous.onEnded = undefined
+    const next = crossfader.next(createPlayback, fade)
+    // advance the queue when the track runs out, not when it is replaced
+    next.onEnded = advance
+    next.play()
+    controller = next
+    showTransport(next)
+    fileError.style.display = 'none'
+    audioChange({
+      kind: 'file',
+      node: output,
+      monitor: true,
+      preAnalysed: map && { map, position: () => next.position },
+      metadata,
+      video,
+      // another input took over: stop playing and drop any decode in flight
+      release: () => {
+        upcoming = undefined
+        cancelRequest()
+        stopPlayback()
+      },
+    })
+  }
+
+  function play(track: Track | undefined) {
+    discardUpcoming()
+    if (!track) {
+      cancelRequest()
+      stopPlayback()
+      return
+    }
+    const preparing = prepare(track)
+    const current = picked = request
+    preparing.then((prepared) => {
+      if (prepared)
+        start(prepared)
+    }).catch(showFileError).finally(() => {
+      if (picked === current)
+        picked = undefined
+    })
+  }
+
+  // move the queue on to the track got ready and fade it in
+  const startUpcoming = (ready: PreparedTrack) => {
+    upcoming = undefined
+    playlist.next()
+    start(ready)
+  }
+
+  // get the track to come ready while this one plays out, leaving the queue
+  // where it is until the track starts. This one no longer advances the
+  // queue itself, so the queue moves on once whether the fade point or the
+  // end of the track comes first
+  const prepareNext = (ending: Playback) => {
+    const track = playlist.peek()
+    const next: Upcoming = upcoming = { from: ending, ended: false }
+    // with nothing to come, this track plays out and the queue stops
+    if (!track)
+      return
+    // ran out before the fade: start the next track as soon as it is ready
+    ending.onEnded = () => {
+      next.ended = true
+      if (next.ready && upcoming === next)
+        startUpcoming(next.ready)
+    }
+    prepare(track).then((prepared) => {
+      if (!prepared || upcoming !== next)
+        return
+      next.ready = prepared
+      if (next.ended)
+        startUpcoming(prepared)
+    }).catch(() => {
+      if (upcoming !== next)
+        return
+      showFileError()
+      // carry on past the unplayable track once this one is over
+      const skipTrack = () => {
+        upcoming = undefined
+        playlist.next()
+        advance()
+      }
+      if (next.ended)
+        skipTrack()
+      else
+        ending.onEnded = skipTrack
+    })
+  }
+
+  // a changed queue may change what comes next: get that ready instead,
+  // unless the change was a track being picked to play
+  playlist.onChange(() => {
+    const dropped = discardUpcoming()
+    if (!dropped)
+      return
+    cancelRequest()
+    if (!dropped.ended)
+      return
+    const current = request
+    queueMicrotask(() => {
+      if (current === request && !upcoming)
+        advance()
+    })
+  })
+
+  const queueFiles = (files: FileList | null) => {
+    const added = playlist.add(Array.from(files ?? []).filter(isMediaFile))
+    // start playing straight away unless something is already playing
+    if (added.length && !controller)
+      play(playlist.select(playlist.tracks.indexOf(added[0])))
+  }
+
+  // get the next track ready ahead of time, then start it once this one reaches
+  // the fade point, so it is mixed in over the end of this one
+  setInterval(() => {
+    const ending = controller
+    // a picked track takes over from this one anyway
+    if (!ending?.playing || picked !== undefined)
+      return
+    if (upcoming?.from !== ending) {
+      if (ending.remaining <= crossfade + PREPARE_AHEAD)
+        prepareNext(ending)
+      return
+    }
+    if (upcoming.ready && ending.remaining <= crossfade)
+      startUpcoming(upcoming.ready)
+  }, CROSSFADE_CHECK_INTERVAL * 1000)
+
+  playlistQueue(playlist, play)
 
   // trigger file input when button clicked
   fileShare.addEventListener('click', () => {
     fileInput.click()
   })
 
-  // read file from file input selection
+  // queue files from file input selection
   fileInput.addEventListener('change', () => {
-    if (fileInput.files && fileInput.files.length)
-      fileReader.readAsArrayBuffer(fileInput.files[0])
+    queueFiles(fileInput.files)
+    // allow the same files to be picked again
+    fileInput.value = ''
   })
 
-  // decode selected file on load
-  fileReader.addEventListener('load', () => {
-    const handleFileDecode = async () => {
-      const audioCtx = new window.AudioContext()
-      // Extract audio samples
-      const arrayB = fileReader.result as ArrayBuffer
-      const arrayBuffer = await audioCtx.decodeAudioData(arrayB)
-      const source = audioCtx.createBufferSource()
-      source.disconnect()
-      source.buffer = arrayBuffer
-      source.connect(audioCtx.destination)
-      source.start()
-      fileError.style.display = 'none'
-      audioChange(source, audioCtx)
-    }
-    handleFileDecode().catch(() => {
-      fileError.style.display = 'block'
-      audioError()
-    })
+  // queue files dropped onto the overlay
+  overlay.addEventListener('dragover', (event) => {
+    event.preventDefault()
+  })
+  overlay.addEventListener('drop', (event) => {
+    event.preventDefault()
+    queueFiles(event.dataTransfer?.files ?? null)
   })
 }
@@ -0,0 +1,60 @@
+import type { InputKind } from '../audio/AudioEngine'
+import type { FilterConfig, FilterSettings } from '../audio/FilterConfig'
+import { INPUT_KINDS } from '../audio/AudioEngine'
+import { FILTER_CONFIG_LIMITS } from '../audio/FilterConfig'
+import { sliderField } from './ConfigField'
+
+type FilterKey = keyof FilterConfig
+
+// wire up the input filter section of the detection panel, editing the filter
+// chain settings of one input kind at a time; returns a function to hand it the
+// kind of the input now playing, which it switches to
+export default function filterPanel(settings: FilterSettings): (kind: InputKind) => void {
+  const kindSelect = document.getElementById('filter-kind') as HTMLSelectElement
+  const fields = document.getElementById('filter-fields') as HTMLElement
+  const errorText = document.getElementById('filter-error') as HTMLElement
+  const reset = document.getElementById('filter-reset') as HTMLButtonElement
+
+  for (const kind of Object.keys(INPUT_KINDS) as InputKind[])
+    kindSelect.add(new Option(INPUT_KINDS[kind], kind))
+  const selectedKind = () => kindSelect.value as InputKind
+
+  const controls = (Object.keys(FILTER_CONFIG_LIMITS) as FilterKey[]).map((key) => {
+    const field = sliderField(FILTER_CONFIG_LIMITS[key])
+    field.input.addEventListener('input', () => {
+      const errors = settings.update(selectedKind(), { [key]: Number(field.input.value) })
+      errorText.textContent = errors.join('. ')
+      errorText.style.display = errors.length ? 'block' : 'none'
+    })
+    fields.append(field.row)
+    return { key, ...field }
+  })
+
+  const render = () => {
+    const config = settings.config(selectedKind())
+    for (const { key, input, output } of controls) {
+      input.value = String(config[key])
+      output.textContent = String(config[key])
+    }
+  }
+
+  // keep the controls in step with the settings, e.g. after a reset
+  settings.onChange((kind) => {
+    if (kind === selectedKind())
+      render()
+  })
+  kindSelect.addEventListener('change', () => {
+    errorText.style.display = 'none'
+    render()
+  })
+  reset.addEventListener('click', () => {
+    settings.reset(selectedKind())
+    errorText.style.display = 'none'
+  })
+  render()
+
+  return (kind) => {
+    kindSelect.value = kind
+    render()
+  }
+}
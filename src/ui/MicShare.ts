@@ -0,0 +1,76 @@
+import type { AudioCallback, AudioEngine } from '../audio/AudioEngine'
+
+/** Fill the device select with the current audio inputs, keeping the selection */
+async function listDevices(deviceSelect: HTMLSelectElement): Promise<void> {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  const selected = deviceSelect.value
+  deviceSelect.length = 0
+  deviceSelect.add(new Option('Default input', ''))
+  devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default')
+    .forEach((device, i) => {
+      // labels stay empty until the user has granted microphone access
+      deviceSelect.add(new Option(device.label || `Input ${i + 1}`, device.deviceId))
+    })
+  deviceSelect.value = selected
+  if (deviceSelect.selectedIndex < 0)
+    deviceSelect.value = ''
+}
+
+// wire up the microphone / line-in card; the chosen device is captured raw,
+// with the browser's voice processing turned off, and never played back
+export default function micShare(engine: AudioEngine, audioChange: AudioCallback, audioError: () => void) {
+  const micShare = document.getElementById('mic-share') as HTMLElement
+  const deviceSelect = document.getElementById('mic-device') as HTMLSelectElement
+  const micError = document.getElementById('mic-error') as HTMLElement
+  // the stream being captured, cleared once the engine releases it
+  let stream: MediaStream | undefined
+
+  const handleAudioChange = async () => {
+    const deviceId = deviceSelect.value
+    const nextStream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    })
+    stream = nextStream
+    const node = engine.context.createMediaStreamSource(nextStream)
+    micError.style.display = 'none'
+    audioChange({
+      kind: 'mic',
+      node,
+      release: () => {
+        nextStream.getTracks().forEach(track => track.stop())
+        if (stream === nextStream)
+          stream = undefined
+      },
+    })
+    await listDevices(deviceSelect)
+  }
+
+  const startInput = () => {
+    handleAudioChange().catch(() => {
+      micError.style.display = 'block'
+      audioError()
+    })
+  }
+
+  micShare.addEventListener('click', startInput)
+
+  // picking from the select must not start capture or toggle the overlay
+  deviceSelect.addEventListener('click', (event) => {
+    event.stopPropagation()
+  })
+  deviceSelect.addEventListener('change', () => {
+    if (stream)
+      startInput()
+  })
+
+  navigator.mediaDevices?.addEventListener('devicechange', () => {
+    listDevices(deviceSelect).catch(() => {})
+  })
+  listDevices(deviceSelect).catch(() => {})
+}
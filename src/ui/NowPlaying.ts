@@ -0,0 +1,100 @@
+import type { TrackMetadata } from '../audio/TrackMetadata'
+import { loadStored, saveStored } from '../core/storage'
+
+const NOW_PLAYING = {
+  /** Seconds the overlay stays up before fading out */
+  HOLD: 6,
+  /** Where the chosen repeat interval is saved */
+  STORAGE_KEY: 'beat-tube:now-playing-interval',
+} as const
+
+/** Repeat choices in seconds; 0 only shows the overlay when a track starts */
+const INTERVALS: [seconds: number, label: string][] = [
+  [0, 'On track start'],
+  [30, 'Every 30 seconds'],
+  [60, 'Every minute'],
+  [120, 'Every 2 minutes'],
+  [300, 'Every 5 minutes'],
+]
+
+function loadInterval(): number {
+  const saved = loadStored(localStorage, NOW_PLAYING.STORAGE_KEY)
+  return INTERVALS.some(([seconds]) => seconds === saved) ? saved as number : 0
+}
+
+// wire up the now-playing overlay, which fades in with the track's title, artist,
+// album and cover when a track starts and again on the chosen interval;
+// returns a function taking the new track, or undefined for inputs without one
+export default function nowPlaying(): (metadata: TrackMetadata | undefined) => void {
+  const panel = document.getElementById('now-playing') as HTMLElement
+  const cover = document.getElementById('now-playing-cover') as HTMLImageElement
+  const title = document.getElementById('now-playing-title') as HTMLElement
+  const artist = document.getElementById('now-playing-artist') as HTMLElement
+  const album = document.getElementById('now-playing-album') as HTMLElement
+  const intervalSelect = document.getElementById('now-playing-interval') as HTMLSelectElement
+
+  let track: TrackMetadata | undefined
+  let coverUrl: string | undefined
+  let hideTimer: ReturnType<typeof setTimeout> | undefined
+  let repeatTimer: ReturnType<typeof setInterval> | undefined
+
+  const show = () => {
+    if (!track)
+      return
+    panel.style.opacity = '1'
+    clearTimeout(hideTimer)
+    hideTimer = setTimeout(() => {
+      panel.style.opacity = '0'
+    }, NOW_PLAYING.HOLD * 1000)
+  }
+
+  const schedule = () => {
+    clearInterval(repeatTimer)
+    const seconds = Number(intervalSelect.value)
+    if (seconds)
+      repeatTimer = setInterval(show, seconds * 1000)
+  }
+
+  // unreadable cover art is hidden rather than shown as a broken image
+  cover.addEventListener('error', () => {
+    cover.style.display = 'none'
+  })
+
+  for (const [seconds, label] of INTERVALS)
+    intervalSelect.add(new Option(label, String(seconds)))
+  intervalSelect.value = String(loadInterval())
+
+  // keep clicks on the dropdown from toggling the overlay
+  intervalSelect.parentElement?.addEventListener('click', e => e.stopPropagation())
+  intervalSelect.addEventListener('change', () => {
+    saveStored(localStorage, NOW_PLAYING.STORAGE_KEY, Number(intervalSelect.value))
+    schedule()
+  })
+
+  return (metadata) => {
+    track = metadata
+    if (coverUrl)
+      URL.revokeObjectURL(coverUrl)
+    coverUrl = undefined
+    if (!metadata) {
+      clearTimeout(hideTimer)
+      clearInterval(repeatTimer)
+      panel.style.opacity = '0'
+      return
+    }
+
+    title.textContent = metadata.title
+    artist.textContent = metadata.artist ?? ''
+    album.textContent = metadata.album ?? ''
+    if (metadata.cover) {
+      coverUrl = URL.createObjectURL(new Blob([metadata.cover.data], { type: metadata.cover.mime }))
+      cover.src = coverUrl
+    }
+    else {
+      cover.removeAttribute('src')
+    }
+    cover.style.display = coverUrl ? 'block' : 'none'
+    show()
+    schedule()
+  }
+}
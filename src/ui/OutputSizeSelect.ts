@@ -0,0 +1,44 @@
+import type { OutputSize, SceneManager } from '../core/SceneManager'
+import { loadStored, saveStored } from '../core/storage'
+
+/** Fixed output sizes offered besides following the window */
+const SIZES: readonly (OutputSize & { label: string })[] = [
+  { label: '1280x720', width: 1280, height: 720 },
+  { label: '1920x1080', width: 1920, height: 1080 },
+  { label: '2560x1440', width: 2560, height: 1440 },
+  { label: '3840x2160', width: 3840, height: 2160 },
+]
+
+/** Where the chosen size is saved */
+const STORAGE_KEY = 'beat-tube:output-size'
+
+/** Option value for following the window */
+const WINDOW = 'window'
+
+/**
+ * Fill the output size dropdown, apply the saved choice to the scene manager
+ * and keep it up to date.
+ */
+export default function outputSizeSelect(sceneManager: SceneManager): void {
+  const select = document.getElementById('output-size') as HTMLSelectElement
+
+  select.add(new Option('Window', WINDOW))
+  for (const { label } of SIZES)
+    select.add(new Option(label, label))
+
+  const apply = () => {
+    const size = SIZES.find(({ label }) => label === select.value)
+    sceneManager.setOutputSize(size && { width: size.width, height: size.height })
+  }
+
+  const saved = loadStored(localStorage, STORAGE_KEY)
+  select.value = SIZES.some(({ label }) => label === saved) ? saved as string : WINDOW
+  apply()
+
+  // keep clicks on the dropdown from toggling the overlay
+  select.parentElement?.addEventListener('click', e => e.stopPropagation())
+  select.addEventListener('change', () => {
+    apply()
+    saveStored(localStorage, STORAGE_KEY, select.value)
+  })
+}
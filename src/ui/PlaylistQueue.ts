@@ -0,0 +1,71 @@
+import type { Playlist, Track } from '../audio/Playlist'
+import { REPEAT_MODES } from '../audio/Playlist'
+
+const REPEAT_LABELS = {
+  off: 'Repeat: Off',
+  all: 'Repeat: All',
+  one: 'Repeat: Track',
+} as const
+
+/** Small text button for the queue controls */
+function createButton(label: string, title: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button')
+  button.className = 'bg-transparent c-yellow50 b-1 px-2 cursor-pointer'
+  button.textContent = label
+  button.title = title
+  button.addEventListener('click', onClick)
+  return button
+}
+
+// render the playlist queue under the input cards and wire its controls;
+// play is called with the track to start, or undefined to stop
+export default function playlistQueue(playlist: Playlist, play: (track: Track | undefined) => void) {
+  const queue = document.getElementById('playlist') as HTMLElement
+  const trackList = document.getElementById('playlist-tracks') as HTMLOListElement
+  const prevButton = document.getElementById('playlist-prev') as HTMLButtonElement
+  const nextButton = document.getElementById('playlist-next') as HTMLButtonElement
+  const shuffleButton = document.getElementById('playlist-shuffle') as HTMLButtonElement
+  const repeatButton = document.getElementById('playlist-repeat') as HTMLButtonElement
+
+  const render = () => {
+    queue.style.display = playlist.tracks.length ? 'flex' : 'none'
+    shuffleButton.textContent = playlist.shuffle ? 'Shuffle: On' : 'Shuffle: Off'
+    repeatButton.textContent = REPEAT_LABELS[playlist.repeat]
+
+    trackList.replaceChildren(...playlist.tracks.map((track, index) => {
+      const item = document.createElement('li')
+      item.className = 'flex items-center gap-2'
+      const name = document.createElement('span')
+      name.className = 'flex-1 cursor-pointer truncate'
+      if (track === playlist.current)
+        name.className += ' c-blue500 fw-600'
+      name.textContent = track.name
+      name.title = 'Play'
+      name.addEventListener('click', () => play(playlist.select(index)))
+      item.append(
+        name,
+        createButton('▲', 'Move up', () => playlist.move(index, index - 1)),
+        createButton('▼', 'Move down', () => playlist.move(index, index + 1)),
+        createButton('✕', 'Remove', () => playlist.remove(index)),
+      )
+      return item
+    }))
+  }
+
+  // clicks inside the queue must not toggle the overlay
+  queue.addEventListener('click', (event) => {
+    event.stopPropagation()
+  })
+
+  prevButton.addEventListener('click', () => play(playlist.previous()))
+  nextButton.addEventListener('click', () => play(playlist.skip()))
+  shuffleButton.addEventListener('click', () => {
+    playlist.shuffle = !playlist.shuffle
+  })
+  repeatButton.addEventListener('click', () => {
+    playlist.repeat = REPEAT_MODES[(REPEAT_MODES.indexOf(playlist.repeat) + 1) % REPEAT_MODES.length]
+  })
+
+  playlist.onChange(render)
+  render()
+}
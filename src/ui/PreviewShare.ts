@@ -1,20 +1,21 @@
-import type { AudioCallback } from '../audio/OnsetResult'
+import type { AudioCallback, AudioEngine } from '../audio/AudioEngine'
 
-export default function previewFile(audioChange: AudioCallback) {
+export default function previewFile(engine: AudioEngine, audioChange: AudioCallback) {
   const button = document.getElementById('default-play') as HTMLButtonElement
   const audioElement = document.getElementById('default-music') as HTMLAudioElement
-  let audioCtx: AudioContext
-  let source: MediaElementAudioSourceNode
+  // an element can only ever have one source node, so it is kept for reuse
+  let node: MediaElementAudioSourceNode | undefined
   button.addEventListener('click', (event) => {
     event.stopPropagation()
-    if (!audioCtx) {
-      audioCtx = new window.AudioContext()
-      audioElement.play()
-      source = audioCtx.createMediaElementSource(audioElement)
-    }
-    source.connect(audioCtx.destination)
+    node ??= engine.context.createMediaElementSource(audioElement)
+    audioElement.play()
 
     // Extract audio samples
-    audioChange(source, audioCtx)
+    audioChange({
+      kind: 'preview',
+      node,
+      monitor: true,
+      release: () => audioElement.pause(),
+    })
   })
 }
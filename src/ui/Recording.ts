@@ -0,0 +1,61 @@
+import type { OnsetRecorder, OnsetRecording } from '../audio/OnsetRecorder'
+import { parseRecording } from '../audio/OnsetRecorder'
+
+/** Save a recording as a JSON download */
+function download(recording: OnsetRecording): void {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `beat-tube-${new Date().toISOString().replace(/[:.]/g, '-')}.onsets.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// wire up the record toggle, which downloads the capture when stopped, and the
+// replay card, which loads a saved capture and hands it to onReplay
+export default function recording(
+  recorder: OnsetRecorder,
+  onReplay: (recording: OnsetRecording) => void,
+  replayError: () => void,
+) {
+  const recordToggle = document.getElementById('record-toggle') as HTMLButtonElement
+  const replayShare = document.getElementById('replay-share') as HTMLElement
+  const replayInput = document.getElementById('replay-input') as HTMLInputElement
+  const replayErrorText = document.getElementById('replay-error') as HTMLElement
+
+  recordToggle.addEventListener('click', (event) => {
+    event.stopPropagation()
+    if (recorder.recording) {
+      const capture = recorder.stop()
+      if (capture.frames)
+        download(capture)
+      recordToggle.textContent = 'Start Recording'
+    }
+    else {
+      recorder.start()
+      recordToggle.textContent = 'Stop & Save Recording'
+    }
+  })
+
+  replayShare.addEventListener('click', () => {
+    replayInput.click()
+  })
+
+  replayInput.addEventListener('change', () => {
+    const file = replayInput.files?.[0]
+    if (!file)
+      return
+    const handleReplay = async () => {
+      const capture = parseRecording(JSON.parse(await file.text()))
+      replayErrorText.style.display = 'none'
+      onReplay(capture)
+    }
+    handleReplay().catch(() => {
+      replayErrorText.style.display = 'block'
+      replayError()
+    })
+    // allow the same file to be picked again
+    replayInput.value = ''
+  })
+}
@@ -0,0 +1,118 @@
+import type { SceneInfo } from '../core/Scene'
+import type { SceneManager } from '../core/SceneManager'
+
+const GALLERY = {
+  /** Thumbnail size in pixels */
+  THUMB_WIDTH: 320,
+  THUMB_HEIGHT: 180,
+  /** Seconds between captures of the scene on screen while the gallery is open */
+  LIVE_INTERVAL: 0.1,
+  /** Seconds between captures while it is closed, to keep the cached thumbnails fresh */
+  CACHE_INTERVAL: 2,
+} as const
+
+/** Build a gallery card: a thumbnail above the scene's name, description, tags and author */
+function createCard(info: SceneInfo): { card: HTMLButtonElement, thumb: HTMLCanvasElement } {
+  const card = document.createElement('button')
+  card.className = 'flex flex-col gap-1 p-2 text-left bg-transparent c-yellow50 b-2 cursor-pointer'
+  card.title = info.description
+
+  const thumb = document.createElement('canvas')
+  thumb.width = GALLERY.THUMB_WIDTH
+  thumb.height = GALLERY.THUMB_HEIGHT
+  thumb.className = 'w-full bg-black'
+
+  const name = document.createElement('div')
+  name.className = 'text-xl fw-600'
+  name.textContent = info.name
+  const description = document.createElement('div')
+  description.className = 'text-sm'
+  description.textContent = info.description
+  const details = document.createElement('div')
+  details.className = 'text-sm op-70'
+  details.textContent = [info.tags.join(', '), info.author && `by ${info.author}`].filter(Boolean).join(' · ')
+
+  card.append(thumb, name, description, details)
+  return { card, thumb }
+}
+
+/** Draw the canvas into a thumbnail, cropped to fill it */
+function drawThumbnail(source: HTMLCanvasElement, thumb: HTMLCanvasElement): void {
+  const context = thumb.getContext('2d')
+  if (!context || !source.width || !source.height)
+    return
+  const scale = Math.max(thumb.width / source.width, thumb.height / source.height)
+  const width = thumb.width / scale
+  const height = thumb.height / scale
+  context.drawImage(source, (source.width - width) / 2, (source.height - height) / 2, width, height, 0, 0, thumb.width, thumb.height)
+}
+
+// wire up the scene gallery, shown with the overlay button or the G key, with a
+// card per registered scene that switches to it; returns a function to call right
+// after each frame is rendered, which captures the scene on screen as its thumbnail:
+// live while the gallery is open, and cached for the scenes not showing
+export default function sceneGallery(sceneManager: SceneManager, canvas: HTMLCanvasElement): () => void {
+  const gallery = document.getElementById('scene-gallery') as HTMLElement
+  const cards = document.getElementById('scene-gallery-cards') as HTMLElement
+  const toggle = document.getElementById('gallery-toggle') as HTMLButtonElement
+
+  const entries = sceneManager.scenes.map((info, index) => {
+    const entry = createCard(info)
+    entry.card.addEventListener('click', () => {
+      sceneManager.setScene(index)
+      hide()
+    })
+    cards.append(entry.card)
+    return entry
+  })
+
+  const highlight = (current: number) => {
+    entries.forEach(({ card }, index) => {
+      card.style.borderColor = index === current ? 'currentColor' : 'transparent'
+    })
+  }
+  highlight(sceneManager.index)
+  sceneManager.onSceneChange(highlight)
+
+  function hide() {
+    gallery.style.display = 'none'
+  }
+
+  const toggleGallery = () => {
+    gallery.style.display = gallery.style.display === 'flex' ? 'none' : 'flex'
+  }
+
+  // clicks inside the gallery must not toggle the overlay
+  gallery.addEventListener('click', (event) => {
+    event.stopPropagation()
+  })
+
+  toggle.addEventListener('click', (event) => {
+    event.stopPropagation()
+    toggleGallery()
+  })
+
+  document.addEventListener('keydown', (event) => {
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement)
+      return
+    if (event.ctrlKey || event.metaKey || event.altKey)
+      return
+    if (event.key === 'g' || event.key === 'G')
+      toggleGallery()
+    else if (event.key === 'Escape')
+      hide()
+  })
+
+  let lastCapture = -Infinity
+  return () => {
+    const now = performance.now() / 1000
+    const interval = gallery.style.display === 'flex' ? GALLERY.LIVE_INTERVAL : GALLERY.CACHE_INTERVAL
+    // a frame mid-transition shows two scenes at once
+    if (now - lastCapture < interval || sceneManager.transitioning)
+      return
+    lastCapture = now
+    const entry = entries[sceneManager.index]
+    if (entry)
+      drawThumbnail(canvas, entry.thumb)
+  }
+}
@@ -0,0 +1,213 @@
+import type { IScene } from '../core/Scene'
+import type { SceneManager } from '../core/SceneManager'
+import type { SceneParam, SceneParamValue } from '../core/SceneParams'
+import type { PresetFile, ScenePresets } from '../core/ScenePresets'
+import type { ConfigField } from './ConfigField'
+import { defaultParams, setSceneParam } from '../core/SceneParams'
+import { labelledField, sliderField } from './ConfigField'
+
+/** Number keys recall this many presets, in the order they were saved */
+const PRESET_KEYS = 9
+
+/** Save every preset as a JSON download */
+function download(file: PresetFile): void {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'beat-tube.presets.json'
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/** Build a labelled control for one parameter; `read` gives its value in the param's type */
+function createField(param: SceneParam, value: SceneParamValue): ConfigField<HTMLInputElement | HTMLSelectElement> & { read: () => SceneParamValue } {
+  switch (param.type) {
+    case 'number': {
+      const field = sliderField(param)
+      field.input.value = String(value)
+      field.output.textContent = String(value)
+      return { ...field, read: () => Number(field.input.value) }
+    }
+    case 'color': {
+      const color = document.createElement('input')
+      color.type = 'color'
+      color.className = 'w-full bg-transparent b-0 p-0'
+      color.value = String(value)
+      return { ...labelledField(param.label, color), read: () => color.value }
+    }
+    case 'enum': {
+      const select = document.createElement('select')
+      select.className = 'bg-transparent c-yellow50 b-1 p-1'
+      for (const option of Object.keys(param.options))
+        select.add(new Option(param.options[option], option))
+      select.value = String(value)
+      return { ...labelledField(param.label, select), read: () => select.value }
+    }
+    case 'boolean': {
+      const checkbox = document.createElement('input')
+      checkbox.type = 'checkbox'
+      checkbox.checked = value === true
+      const field = labelledField(param.label, checkbox)
+      // a checkbox sits beside its label rather than under it
+      field.row.className = 'flex items-center justify-between'
+      return { ...field, read: () => checkbox.checked }
+    }
+  }
+}
+
+// wire up the scene tuning panel, shown with the overlay button or the S key,
+// which lists the controls of whichever scene is on screen and applies each
+// change to it live, and its named presets, recalled with the number keys and
+// exported or imported as a file
+export default function scenePanel(sceneManager: SceneManager, presets: ScenePresets) {
+  const panel = document.getElementById('scene-panel') as HTMLElement
+  const toggle = document.getElementById('scene-panel-toggle') as HTMLButtonElement
+  const heading = document.getElementById('scene-panel-title') as HTMLElement
+  const fields = document.getElementById('scene-panel-fields') as HTMLElement
+  const errorText = document.getElementById('scene-panel-error') as HTMLElement
+  const reset = document.getElementById('scene-panel-reset') as HTMLButtonElement
+  const presetList = document.getElementById('scene-presets') as HTMLElement
+  const presetName = document.getElementById('preset-name') as HTMLInputElement
+  const presetSave = document.getElementById('preset-save') as HTMLButtonElement
+  const presetExport = document.getElementById('preset-export') as HTMLButtonElement
+  const presetImport = document.getElementById('preset-import') as HTMLButtonElement
+  const presetInput = document.getElementById('preset-input') as HTMLInputElement
+
+  const showError = (error?: string) => {
+    errorText.textContent = error ?? ''
+    errorText.style.display = error ? 'block' : 'none'
+  }
+
+  // rebuilt for each scene, since every scene has its own schema
+  const build = (scene: IScene | undefined) => {
+    fields.replaceChildren()
+    showError()
+    heading.textContent = scene?.info.name ?? 'Scene'
+    const { schema, params } = scene ?? {}
+    if (!scene || !schema || !params) {
+      fields.textContent = 'This scene has nothing to tune.'
+      reset.hidden = true
+      return
+    }
+    reset.hidden = false
+    for (const key of Object.keys(schema)) {
+      const { row, input, output, read } = createField(schema[key], params[key])
+      const apply = () => {
+        showError(setSceneParam(scene, key, read()))
+        if (schema[key].type === 'number')
+          output.textContent = String(params[key])
+      }
+      input.addEventListener('input', apply)
+      // checkboxes and selects only report some browsers' changes as input
+      input.addEventListener('change', apply)
+      fields.append(row)
+    }
+  }
+
+  // apply a preset to the scene on screen, noting anything that no longer fits it
+  const recall = (index: number) => {
+    const scene = sceneManager.current
+    const preset = scene && presets.list(scene.info.id)[index]
+    if (!scene || !preset)
+      return
+    const notes = presets.apply(scene, preset.name)
+    build(scene)
+    presetName.value = preset.name
+    showError(notes.join('. ') || undefined)
+  }
+
+  const listPresets = () => {
+    presetList.replaceChildren()
+    const scene = sceneManager.current
+    if (!scene)
+      return
+    presets.list(scene.info.id).forEach((preset, index) => {
+      const row = document.createElement('div')
+      row.className = 'flex gap-2'
+      const recallButton = document.createElement('button')
+      recallButton.className = 'flex-1 truncate text-left bg-transparent c-yellow50 b-1 p-1 cursor-pointer'
+      recallButton.textContent = index < PRESET_KEYS ? `${index + 1}. ${preset.name}` : preset.name
+      recallButton.addEventListener('click', () => recall(index))
+      const removeButton = document.createElement('button')
+      removeButton.className = 'bg-transparent c-yellow50 b-1 p-1 cursor-pointer'
+      removeButton.textContent = '×'
+      removeButton.title = `Delete ${preset.name}`
+      removeButton.addEventListener('click', () => presets.remove(scene.info.id, preset.name))
+      row.append(recallButton, removeButton)
+      presetList.append(row)
+    })
+  }
+
+  build(sceneManager.current)
+  listPresets()
+  sceneManager.onSceneChange(() => {
+    build(sceneManager.current)
+    listPresets()
+  })
+  presets.onChange(listPresets)
+
+  presetSave.addEventListener('click', () => {
+    const scene = sceneManager.current
+    if (scene)
+      showError(presets.save(scene, presetName.value))
+  })
+
+  presetExport.addEventListener('click', () => {
+    download(presets.export())
+  })
+
+  presetImport.addEventListener('click', () => {
+    presetInput.click()
+  })
+
+  presetInput.addEventListener('change', () => {
+    const file = presetInput.files?.[0]
+    if (!file)
+      return
+    const handleImport = async () => {
+      presets.import(JSON.parse(await file.text()))
+      showError()
+    }
+    handleImport().catch((error: unknown) => {
+      showError(error instanceof Error ? error.message : 'Could not read the presets file')
+    })
+    // allow the same file to be picked again
+    presetInput.value = ''
+  })
+
+  const togglePanel = () => {
+    panel.style.display = panel.style.display === 'flex' ? 'none' : 'flex'
+  }
+
+  // clicks inside the panel must not toggle the overlay
+  panel.addEventListener('click', (event) => {
+    event.stopPropagation()
+  })
+
+  toggle.addEventListener('click', (event) => {
+    event.stopPropagation()
+    togglePanel()
+  })
+
+  reset.addEventListener('click', () => {
+    const scene = sceneManager.current
+    if (!scene?.schema || !scene.params)
+      return
+    Object.assign(scene.params, defaultParams(scene.schema))
+    scene.applyParams?.()
+    build(scene)
+  })
+
+  document.addEventListener('keydown', (event) => {
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement)
+      return
+    // Ctrl+S, Cmd+1 and the like belong to the browser
+    if (event.ctrlKey || event.metaKey || event.altKey)
+      return
+    if (event.key === 's' || event.key === 'S')
+      togglePanel()
+    else if (event.key >= '1' && event.key <= String(PRESET_KEYS))
+      recall(Number(event.key) - 1)
+  })
+}
@@ -0,0 +1,26 @@
+import type { SceneManager } from '../core/SceneManager'
+
+/** Seconds the scene name stays up after a switch before fading out */
+const HOLD = 2.5
+
+// show the name of the scene switched to, fading out again after a moment
+export default function sceneTitle(sceneManager: SceneManager): void {
+  const panel = document.getElementById('scene-title') as HTMLElement
+  const name = document.getElementById('scene-title-name') as HTMLElement
+  const description = document.getElementById('scene-title-description') as HTMLElement
+
+  let hideTimer: ReturnType<typeof setTimeout> | undefined
+
+  sceneManager.onSceneChange((index) => {
+    const info = sceneManager.scenes[index]
+    if (!info)
+      return
+    name.textContent = info.name
+    description.textContent = info.description
+    panel.style.opacity = '1'
+    clearTimeout(hideTimer)
+    hideTimer = setTimeout(() => {
+      panel.style.opacity = '0'
+    }, HOLD * 1000)
+  })
+}
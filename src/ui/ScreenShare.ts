@@ -1,18 +1,38 @@
-import type { AudioCallback } from '../audio/OnsetResult'
+import type { AudioCallback, AudioEngine } from '../audio/AudioEngine'
 
-export default function shareFile(audioChange: AudioCallback, audioError: () => void) {
+export default function shareFile(engine: AudioEngine, audioChange: AudioCallback, audioError: () => void) {
   const scrShare = document.getElementById('scr-share') as HTMLElement
   const scrError = document.getElementById('scr-error') as HTMLElement
   const handleAudioChange = async () => {
-    const audioCtx = new window.AudioContext()
     const stream = await navigator.mediaDevices.getDisplayMedia({
       audio: true,
       video: true,
     })
-    const source = audioCtx.createMediaStreamSource(stream)
+    const node = engine.context.createMediaStreamSource(stream)
     // Extract audio samples
     scrError.style.display = 'none'
-    audioChange(source, audioCtx)
+    // play the captured picture into a hidden element so scenes can show it;
+    // muted, as the sound reaches the analyser through the stream source
+    let video: HTMLVideoElement | undefined
+    if (stream.getVideoTracks().length) {
+      video = document.createElement('video')
+      video.muted = true
+      video.playsInline = true
+      video.srcObject = stream
+      video.play().catch(() => {})
+    }
+    // the shared audio is already audible, so it is not monitored; stop the
+    // capture (and the browser's sharing indicator) once another input takes over
+    audioChange({
+      kind: 'screen',
+      node,
+      video,
+      release: () => {
+        stream.getTracks().forEach(track => track.stop())
+        if (video)
+          video.srcObject = null
+      },
+    })
   }
 
   scrShare.addEventListener('click', () => {
@@ -0,0 +1,55 @@
+import type { SceneManager } from '../core/SceneManager'
+import type { TransitionEffect } from '../core/SceneTransition'
+import { TRANSITION_EFFECTS } from '../core/SceneTransition'
+import { loadStored, saveStored, storedRecord } from '../core/storage'
+
+/** Transition lengths offered, in seconds; 0 switches scenes instantly */
+const DURATIONS = [0, 0.5, 1, 2, 4] as const
+
+/** Where the chosen transition is saved */
+const STORAGE_KEY = 'beat-tube:transition'
+
+const DEFAULT_TRANSITION = { effect: 'crossfade' as TransitionEffect, duration: 1 }
+
+function isTransitionEffect(value: unknown): value is TransitionEffect {
+  return typeof value === 'string' && Object.hasOwn(TRANSITION_EFFECTS, value)
+}
+
+function loadTransition(): { effect: TransitionEffect, duration: number } {
+  const saved = storedRecord(loadStored(localStorage, STORAGE_KEY))
+  return {
+    effect: isTransitionEffect(saved.effect) ? saved.effect : DEFAULT_TRANSITION.effect,
+    duration: (DURATIONS as readonly unknown[]).includes(saved.duration) ? saved.duration as number : DEFAULT_TRANSITION.duration,
+  }
+}
+
+/**
+ * Fill the scene transition dropdowns, apply the saved choice to the scene
+ * manager and keep it up to date.
+ */
+export default function transitionSelect(sceneManager: SceneManager): void {
+  const effectSelect = document.getElementById('transition-effect') as HTMLSelectElement
+  const durationSelect = document.getElementById('transition-duration') as HTMLSelectElement
+  const initial = loadTransition()
+
+  for (const effect of Object.keys(TRANSITION_EFFECTS) as TransitionEffect[])
+    effectSelect.add(new Option(TRANSITION_EFFECTS[effect], effect))
+  for (const seconds of DURATIONS)
+    durationSelect.add(new Option(seconds ? `${seconds}s` : 'Instant', String(seconds)))
+  effectSelect.value = initial.effect
+  durationSelect.value = String(initial.duration)
+  sceneManager.setTransition(initial.effect, initial.duration)
+
+  const apply = () => {
+    if (!isTransitionEffect(effectSelect.value))
+      return
+    const transition = { effect: effectSelect.value, duration: Number(durationSelect.value) }
+    sceneManager.setTransition(transition.effect, transition.duration)
+    saveStored(localStorage, STORAGE_KEY, transition)
+  }
+
+  // keep clicks on the dropdowns from toggling the overlay
+  effectSelect.parentElement?.addEventListener('click', e => e.stopPropagation())
+  effectSelect.addEventListener('change', apply)
+  durationSelect.addEventListener('change', apply)
+}
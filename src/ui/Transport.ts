@@ -0,0 +1,147 @@
+import type { Playback } from '../audio/PlaybackController'
+
+/** Playback rates offered, as multiples of normal speed */
+const RATES = [0.5, 0.75, 1, 1.25, 1.5, 2] as const
+
+/** Seconds the arrow keys seek by */
+const SEEK_STEP = 5
+
+/** Seconds between position updates of the scrubber */
+const REFRESH_INTERVAL = 0.25
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.floor(seconds % 60)
+  return `${minutes}:${rest < 10 ? '0' : ''}${rest}`
+}
+
+// wire up the transport bar and its keyboard shortcuts:
+//   Space play/pause, Left/Right seek, [ and ] change rate, L set A, set B, clear loop
+// returns a function to hand it the controller of the playing file, or undefined when none
+export default function transport(): (controller: Playback | undefined) => void {
+  const bar = document.getElementById('transport') as HTMLElement
+  const playButton = document.getElementById('transport-play') as HTMLButtonElement
+  const scrubber = document.getElementById('transport-scrub') as HTMLInputElement
+  const timeText = document.getElementById('transport-time') as HTMLElement
+  const loopButton = document.getElementById('transport-loop') as HTMLButtonElement
+  const rateSelect = document.getElementById('transport-rate') as HTMLSelectElement
+
+  let controller: Playback | undefined
+  /** Loop start picked with the first press of the A-B button */
+  let loopStart: number | undefined
+  let scrubbing = false
+
+  for (const rate of RATES)
+    rateSelect.add(new Option(`${rate}x`, String(rate)))
+
+  const render = () => {
+    bar.style.display = controller ? 'flex' : 'none'
+    if (!controller)
+      return
+    playButton.textContent = controller.playing ? 'Pause' : 'Play'
+    scrubber.max = String(controller.duration)
+    if (!scrubbing)
+      scrubber.value = String(controller.position)
+    timeText.textContent = `${formatTime(controller.position)} / ${formatTime(controller.duration)}`
+    if (controller.loop)
+      loopButton.textContent = `Loop ${formatTime(controller.loop.start)}-${formatTime(controller.loop.end)}`
+    else
+      loopButton.textContent = loopStart === undefined ? 'Set A' : 'Set B'
+    rateSelect.value = String(controller.rate)
+  }
+
+  const stepLoop = () => {
+    if (!controller)
+      return
+    if (controller.loop) {
+      controller.clearLoop()
+    }
+    else if (loopStart === undefined) {
+      loopStart = controller.position
+    }
+    else {
+      controller.setLoop(loopStart, controller.position)
+      loopStart = undefined
+    }
+    render()
+  }
+
+  const changeRate = (step: number) => {
+    if (!controller)
+      return
+    const index = RATES.indexOf(controller.rate as typeof RATES[number])
+    const next = RATES[Math.min(Math.max(index + step, 0), RATES.length - 1)]
+    controller.setRate(next)
+    render()
+  }
+
+  // clicks inside the bar must not toggle the overlay
+  bar.addEventListener('click', (event) => {
+    event.stopPropagation()
+  })
+
+  playButton.addEventListener('click', () => {
+    controller?.toggle()
+    render()
+  })
+  scrubber.addEventListener('input', () => {
+    scrubbing = true
+  })
+  scrubber.addEventListener('change', () => {
+    scrubbing = false
+    controller?.seek(Number(scrubber.value))
+    render()
+  })
+  loopButton.addEventListener('click', stepLoop)
+  rateSelect.addEventListener('change', () => {
+    controller?.setRate(Number(rateSelect.value))
+    render()
+  })
+
+  document.addEventListener('keydown', (event) => {
+    // leave keys to focused form controls and editable text, and Space to a focused button
+    const target = event.target
+    if (!controller || target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement)
+      return
+    if (target instanceof HTMLElement && target.isContentEditable)
+      return
+    // Ctrl+arrows, Cmd+L and the like belong to the browser
+    if (event.ctrlKey || event.metaKey || event.altKey)
+      return
+    switch (event.key) {
+      case ' ':
+        if (target instanceof HTMLButtonElement)
+          return
+        event.preventDefault()
+        controller.toggle()
+        break
+      case 'ArrowLeft':
+        controller.seek(controller.position - SEEK_STEP)
+        break
+      case 'ArrowRight':
+        controller.seek(controller.position + SEEK_STEP)
+        break
+      case '[':
+        changeRate(-1)
+        break
+      case ']':
+        changeRate(1)
+        break
+      case 'l':
+      case 'L':
+        stepLoop()
+        break
+      default:
+        return
+    }
+    render()
+  })
+
+  setInterval(render, REFRESH_INTERVAL * 1000)
+
+  return (next) => {
+    controller = next
+    loopStart = undefined
+    render()
+  }
+}
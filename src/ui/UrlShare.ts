@@ -0,0 +1,116 @@
+import type { AudioCallback, AudioEngine } from '../audio/AudioEngine'
+
+/** Why a URL could not be analysed */
+type StreamProblem = 'invalid' | 'cors' | 'unreachable' | 'unplayable'
+
+const PROBLEMS: Record<StreamProblem, string> = {
+  invalid: 'Enter a full http:// or https:// address',
+  cors: 'The server does not allow cross-origin access (CORS), so the browser will not let its audio be analysed. '
+    + 'Add an Access-Control-Allow-Origin header to its responses.',
+  unreachable: 'Could not reach the server',
+  unplayable: 'The stream loaded but could not be played; its format may not be supported',
+}
+
+function parseUrl(value: string): URL | undefined {
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Work out why the element failed to load a URL. A CORS request that fails
+ * while an opaque no-cors request to the same URL succeeds means the server is
+ * up but forbids analysis. Requests are aborted once headers arrive, so an
+ * endless radio stream is never downloaded.
+ */
+async function diagnose(url: string): Promise<StreamProblem> {
+  const probe = async (mode: RequestMode) => {
+    const controller = new AbortController()
+    await fetch(url, { mode, signal: controller.signal, cache: 'no-store' })
+    controller.abort()
+  }
+  try {
+    await probe('cors')
+    return 'unplayable'
+  }
+  catch {
+    try {
+      await probe('no-cors')
+      return 'cors'
+    }
+    catch {
+      return 'unreachable'
+    }
+  }
+}
+
+// wire up the URL card, which streams an HTTP audio URL or internet radio station
+// through a media element into the analyser; a `?url=` query parameter fills it in
+export default function urlShare(engine: AudioEngine, audioChange: AudioCallback, audioError: () => void) {
+  const urlShare = document.getElementById('url-share') as HTMLElement
+  const urlInput = document.getElementById('url-input') as HTMLInputElement
+  const urlPlay = document.getElementById('url-play') as HTMLButtonElement
+  const urlError = document.getElementById('url-error') as HTMLElement
+
+  // anonymous CORS mode, or the browser feeds the analyser silence
+  const audioElement = new Audio()
+  audioElement.crossOrigin = 'anonymous'
+  audioElement.preload = 'none'
+  // an element can only ever have one source node, so it is kept for reuse
+  let node: MediaElementAudioSourceNode | undefined
+
+  const requested = new URLSearchParams(window.location.search).get('url')
+  if (requested)
+    urlInput.value = requested
+
+  const showError = (problem: StreamProblem) => {
+    urlError.textContent = PROBLEMS[problem]
+    urlError.style.display = 'block'
+    audioError()
+  }
+
+  const stop = () => {
+    audioElement.pause()
+    // drop the source so a live stream stops downloading
+    audioElement.removeAttribute('src')
+    audioElement.load()
+  }
+
+  const handleStream = async () => {
+    const url = parseUrl(urlInput.value)
+    if (!url) {
+      showError('invalid')
+      return
+    }
+    node ??= engine.context.createMediaElementSource(audioElement)
+    audioElement.src = url.href
+    try {
+      await audioElement.play()
+    }
+    catch {
+      stop()
+      showError(await diagnose(url.href))
+      return
+    }
+    urlError.style.display = 'none'
+    audioChange({ kind: 'url', node, monitor: true, release: stop })
+  }
+
+  const startStream = () => {
+    handleStream().catch(() => showError('unplayable'))
+  }
+
+  // clicks inside the card must not toggle the overlay
+  urlShare.addEventListener('click', (event) => {
+    event.stopPropagation()
+  })
+  urlPlay.addEventListener('click', startStream)
+  urlInput.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter')
+      startStream()
+  })
+}